@@ -1,7 +1,7 @@
 /**
  * Chatifier plugin entrypoint.
  * Wires chat_* tools, config mutations, and system prompt updates.
- * Keeps orchestration minimal and delegates logic to modules.
+ * Semantic indexing starts in the background so startup never waits on it.
  */
 import type { Plugin } from "@opencode-ai/plugin"
 import path from "path"
@@ -9,44 +9,52 @@ import { TODO_FILENAME } from "./util/constants"
 import { configureChatAgents } from "./config"
 import { replaceSystemPrompt } from "./system"
 import { createChatTools } from "./tools"
-import { ensureSemanticIndex, ensureModel } from "./semantic"
+import { startBackgroundIndex, stopBackgroundIndex, createIndexQueue, loadSemanticConfig } from "./semantic"
 
-export const ChatifierPlugin: Plugin = async ({ directory, worktree }) => {
+export const ChatifierPlugin: Plugin = async ({ directory, worktree }, options) => {
   // Fall back to directory if worktree is empty (not a git repo)
   const root = worktree && worktree !== "/" ? worktree : directory
 
   const todoPath = path.join(root, TODO_FILENAME)
 
-  await ensureModel(root)
+  const semanticConfig = await loadSemanticConfig(root, options)
 
-  const result = await ensureSemanticIndex(root, {
-    mode: "changed",
-    maxTargets: 100,
-    onProgress: (progress) => {
-      if (progress.total === 0) return
-      const percent = Math.floor((progress.processed / progress.total) * 100)
-      const filled = Math.round((percent / 100) * 20)
-      const bar = "=".repeat(filled) + "-".repeat(20 - filled)
-      const current = progress.currentPath ? `\n  ${progress.currentPath}` : ""
-      console.log(
-        `[semantic] [${bar}] ${percent}% ${progress.processed}/${progress.total} files, chunks: ${progress.chunks}${current}`,
-      )
+  startBackgroundIndex(root, {
+    config: semanticConfig,
+    // Only the summary is logged; per-file progress would flood the session log
+    onDone: (result) => {
+      if (result.rebuildReason) {
+        console.log(`[semantic] rebuilt index: ${result.rebuildReason}`)
+      }
+      if (result.removed > 0) {
+        console.log(`[semantic] removed ${result.removed} deleted files from index`)
+      }
+      if (result.indexed > 0) {
+        console.log(`[semantic] indexed ${result.indexed} files (${result.chunks} chunks)`)
+      } else if (result.total === 0 && result.skipped > 0) {
+        console.log(`[semantic] index up to date (${result.skipped} files unchanged)`)
+      }
     },
   })
 
-  if (result.skippedReason) {
-    console.log(`\n[semantic] ⚠️  indexing skipped: ${result.skippedReason} (${result.total} files)`)
-    console.log(`[semantic]    Run \`bun run semantic-index\` to index all files.\n`)
-    await Bun.sleep(10000)
-  } else if (result.indexed > 0) {
-    console.log(`[semantic] indexed ${result.indexed} files (${result.chunks} chunks)`)
-  } else if (result.total === 0 && result.skipped > 0) {
-    console.log(`[semantic] index up to date (${result.skipped} files unchanged)`)
-  }
+  // Keep the index current mid-session: re-embed files the tools touch and OpenCode's watcher reports
+  const indexQueue = createIndexQueue(root, semanticConfig)
 
-  const chatTools = createChatTools(directory, root, todoPath)
+  const chatTools = createChatTools(directory, root, todoPath, {
+    config: semanticConfig,
+    onFilesChanged: indexQueue.enqueue,
+  })
 
   return {
+    dispose: async () => {
+      stopBackgroundIndex(root)
+      indexQueue.dispose()
+    },
+    event: async ({ event }) => {
+      if (event.type === "file.edited" || event.type === "file.watcher.updated") {
+        indexQueue.enqueue([event.properties.file])
+      }
+    },
     config: async (config) => {
       configureChatAgents(config as Parameters<typeof configureChatAgents>[0], chatTools.toolIds)
     },
@@ -1,33 +1,25 @@
 #!/usr/bin/env bun
 /**
- * Download embedding model for semantic search.
+ * Download or connect to the embedding model for semantic search.
  * Usage: bunx --bun @howaboua/opencode-chat opencode-chat-download-model
- * Run from your project root directory.
+ * Run from your project root directory; honors plugin options in opencode.json and .opencode/chat/config.json.
  */
 import * as path from "path"
-import * as fs from "fs/promises"
-import { EmbeddingModel, ExecutionProvider, FlagEmbedding } from "fastembed"
-
-const MODEL_DIRNAME = "models"
+import { ensureModel, getEmbedder } from "../semantic/embedder.js"
+import { loadSemanticConfig, readPluginOptions } from "../semantic/config.js"
 
 async function main() {
   const worktree = path.resolve(process.cwd())
-  const cacheDir = path.join(worktree, ".opencode", "chat", MODEL_DIRNAME)
+  const config = await loadSemanticConfig(worktree, await readPluginOptions(worktree))
 
   console.log(`[model] worktree: ${worktree}`)
-  console.log(`[model] cache dir: ${cacheDir}`)
-  console.log(`[model] downloading AllMiniLML6V2...`)
-
-  await fs.mkdir(cacheDir, { recursive: true })
+  console.log(`[model] provider: ${config.embedding.provider}`)
+  console.log(`[model] preparing ${config.embedding.model || "hashing embeddings"}...`)
 
-  await FlagEmbedding.init({
-    model: EmbeddingModel.AllMiniLML6V2,
-    executionProviders: [ExecutionProvider.CPU],
-    cacheDir,
-    showDownloadProgress: true,
-  })
+  await ensureModel(worktree, config.embedding)
+  const provider = await getEmbedder(worktree, config.embedding)
 
-  console.log(`[model] download complete!`)
+  console.log(`[model] ready: ${provider.modelId} (${provider.dimension} dimensions)`)
 }
 
 await main()
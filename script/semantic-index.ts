@@ -1,46 +1,102 @@
 #!/usr/bin/env bun
 /**
- * Manual semantic indexer.
- * Usage: bunx --bun @howaboua/opencode-chat opencode-chat-semantic-index --mode changed|full
- * Run from your project root directory.
+ * Semantic index CLI.
+ * Usage: bunx --bun @howaboua/opencode-chat opencode-chat-semantic-index [command] [options]
+ * Runs against the current directory unless --root is given; see --help for commands.
  */
 import * as path from "path"
-import { ensureSemanticIndex } from "../semantic/index.js"
-
-function parseMode(argv: string[]) {
-  const idx = argv.indexOf("--mode")
-  if (idx === -1) return "changed" as const
-  const value = argv[idx + 1]
-  if (value === "full") return "full" as const
-  return "changed" as const
-}
-
-function formatProgress(progress: {
-  total: number
-  processed: number
-  indexed: number
-  skipped: number
-  chunks: number
-  currentPath?: string
-}) {
-  if (progress.total === 0) return "[semantic] no files to index"
-  const percent = Math.floor((progress.processed / progress.total) * 100)
-  const width = 24
-  const filled = Math.round((percent / 100) * width)
-  const bar = "=".repeat(filled) + "-".repeat(width - filled)
-  const current = progress.currentPath ? `\n  ${progress.currentPath}` : ""
-  return `[semantic] [${bar}] ${percent}% ${progress.processed}/${progress.total} files, chunks: ${progress.chunks}${current}`
+import { parseArgs } from "util"
+import {
+  ensureSemanticIndex,
+  semanticSearch,
+  pruneSemanticIndex,
+  vacuumSemanticIndex,
+  resetSemanticIndex,
+  exportSemanticIndex,
+  importSemanticIndex,
+  loadSemanticConfig,
+  getIndexStatus,
+  formatIndexStatus,
+  formatProgress,
+  formatSearchResults,
+  MERGE_FETCH_FACTOR,
+  type SearchMode,
+} from "../semantic/index.js"
+import { getDbPath } from "../semantic/db.js"
+import { readPluginOptions } from "../semantic/config.js"
+
+const COMMANDS = ["index", "search", "stats", "prune", "vacuum", "reset", "export", "import"] as const
+const SEARCH_MODES: SearchMode[] = ["semantic", "lexical", "hybrid"]
+
+const USAGE = `Usage: opencode-chat-semantic-index [command] [options]
+
+Commands:
+  index              Build or update the index (default)
+  search "<query>"   Search the index
+  stats              Show index health
+  prune              Drop deleted or ignored files without re-embedding
+  vacuum             Compact the database
+  reset              Delete the index
+  export <file>      Write the index to a portable .jsonl.gz file
+  import <file>      Adopt an exported index, then embed files that differ locally
+
+Options:
+  --root <dir>       Project root (default: current directory)
+  --mode <mode>      index: changed|full (default changed); search: hybrid|semantic|lexical
+  --limit <n>        search: number of results (default 5)
+  --json             Print machine-readable JSON instead of text
+  -h, --help         Show this help`
+
+type Command = (typeof COMMANDS)[number]
+
+function fail(message: string): never {
+  console.error(`${message}\n\n${USAGE}`)
+  process.exit(1)
 }
 
-async function main() {
-  const mode = parseMode(process.argv)
-  const worktree = path.resolve(process.cwd())
-  console.log(`[semantic] worktree: ${worktree}`)
+function parseCli(argv: string[]) {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      root: { type: "string" },
+      mode: { type: "string" },
+      limit: { type: "string" },
+      json: { type: "boolean", default: false },
+      help: { type: "boolean", short: "h", default: false },
+    },
+  })
+  const [first, ...rest] = positionals
+  const command = (first ?? "index") as Command
+  if (!COMMANDS.includes(command)) fail(`Unknown command: ${first}`)
+  return { command, args: rest, ...values }
+}
+
+async function requireIndex(worktree: string) {
+  if (!(await Bun.file(getDbPath(worktree)).exists())) {
+    fail(`No semantic index found in ${worktree}. Run the index command first.`)
+  }
+}
+
+// Same settings the plugin runs with, so an index built here is not rebuilt at the next startup
+async function loadConfig(worktree: string) {
+  return loadSemanticConfig(worktree, await readPluginOptions(worktree))
+}
+
+function print(json: boolean, data: unknown, text: string) {
+  console.log(json ? JSON.stringify(data, null, 2) : text)
+}
+
+async function runIndex(worktree: string, mode: string | undefined, json: boolean, extra: Record<string, unknown> = {}) {
+  if (mode !== undefined && mode !== "changed" && mode !== "full") fail(`Invalid index mode: ${mode}`)
+  const config = await loadConfig(worktree)
   let lastShown = ""
 
   const result = await ensureSemanticIndex(worktree, {
-    mode,
+    mode: mode ?? "changed",
+    config,
     onProgress: (progress) => {
+      if (json) return
       const line = formatProgress(progress)
       if (line === lastShown) return
       lastShown = line
@@ -48,11 +104,98 @@ async function main() {
     },
   })
 
-  console.log("Semantic index complete.")
-  console.log(`mode: ${result.mode}`)
-  console.log(`files indexed: ${result.indexed}`)
-  console.log(`files skipped: ${result.skipped}`)
-  console.log(`chunks: ${result.chunks}`)
+  const lines = ["Semantic index complete."]
+  if (result.rebuildReason) lines.push(`rebuilt from scratch: ${result.rebuildReason}`)
+  lines.push(
+    `mode: ${result.mode}`,
+    `files indexed: ${result.indexed}`,
+    `files skipped: ${result.skipped}`,
+    `files removed: ${result.removed}`,
+    `chunks: ${result.chunks} (${result.reused} reused, ${result.chunksPerSecond.toFixed(1)} chunks/s)`,
+  )
+  print(json, { ...extra, ...result }, lines.join("\n"))
+}
+
+async function runImport(worktree: string, file: string | undefined, json: boolean) {
+  if (!file) fail("import needs an export file")
+  const config = await loadConfig(worktree)
+  const result = await importSemanticIndex(worktree, path.resolve(file), config)
+  if (!json) {
+    console.log(
+      `Imported ${result.imported} files (${result.chunks} chunks) from ${result.modelId}; ${result.unchanged} already current, ${result.differing} differ locally.`,
+    )
+  }
+  // Whatever did not match is embedded locally, exactly like a normal incremental pass
+  await runIndex(worktree, "changed", json, { imported: result })
+}
+
+async function runSearch(worktree: string, query: string | undefined, options: ReturnType<typeof parseCli>) {
+  if (!query?.trim()) fail("search needs a query")
+  const mode = options.mode as SearchMode | undefined
+  if (mode !== undefined && !SEARCH_MODES.includes(mode)) fail(`Invalid search mode: ${mode}`)
+  const limit = options.limit === undefined ? 5 : Number(options.limit)
+  if (!Number.isInteger(limit) || limit <= 0) fail(`Invalid limit: ${options.limit}`)
+  await requireIndex(worktree)
+
+  const config = await loadConfig(worktree)
+  if (options.json) {
+    const results = await semanticSearch(worktree, query, { limit, mode, config })
+    print(true, results, "")
+    return
+  }
+  const results = await semanticSearch(worktree, query, { limit: limit * MERGE_FETCH_FACTOR, mode, config })
+  console.log(results.length > 0 ? await formatSearchResults(worktree, results, { limit, query }) : "No matches found.")
+}
+
+async function main() {
+  const options = parseCli(process.argv.slice(2))
+  if (options.help) {
+    console.log(USAGE)
+    return
+  }
+  const worktree = path.resolve(options.root ?? process.cwd())
+  const json = options.json
+  if (!json) console.log(`[semantic] worktree: ${worktree}`)
+
+  switch (options.command) {
+    case "index":
+      return runIndex(worktree, options.mode, json)
+    case "search":
+      return runSearch(worktree, options.args.join(" "), options)
+    case "stats": {
+      await requireIndex(worktree)
+      const config = await loadConfig(worktree)
+      const status = await getIndexStatus(worktree, { loadStore: true, quantize: config.quantize })
+      return print(json, status, formatIndexStatus(worktree, status))
+    }
+    case "prune": {
+      await requireIndex(worktree)
+      const result = await pruneSemanticIndex(worktree, await loadConfig(worktree))
+      return print(json, result, `Removed ${result.removed} files from the index.`)
+    }
+    case "vacuum": {
+      await requireIndex(worktree)
+      const result = await vacuumSemanticIndex(worktree)
+      const mb = (bytes: number) => (bytes / (1024 * 1024)).toFixed(1)
+      return print(json, result, `Database compacted: ${mb(result.before)} MB -> ${mb(result.after)} MB.`)
+    }
+    case "export": {
+      const file = options.args[0]
+      if (!file) fail("export needs an output file")
+      await requireIndex(worktree)
+      const result = await exportSemanticIndex(worktree, path.resolve(file))
+      return print(json, result, `Exported ${result.files} files (${result.chunks} chunks, ${result.modelId}) to ${file}.`)
+    }
+    case "import":
+      return runImport(worktree, options.args[0], json)
+    case "reset": {
+      const result = await resetSemanticIndex(worktree)
+      return print(json, result, result.removed ? "Semantic index deleted." : "No semantic index to delete.")
+    }
+  }
 }
 
-await main()
+await main().catch((error) => {
+  console.error(`[semantic] ${error instanceof Error ? error.message : String(error)}`)
+  process.exit(1)
+})
@@ -0,0 +1,102 @@
+/**
+ * Background indexing job for plugin startup.
+ * Downloads the model and runs the incremental indexer after the plugin has returned,
+ * in slices that yield to the session, and exposes progress so tools can flag partial results.
+ */
+import { ensureModel } from "./embedder.js"
+import { ensureSemanticIndex, type IndexProgress } from "./index.js"
+import { getDbPath } from "./db.js"
+import type { SemanticConfig } from "./config.js"
+
+export type IndexJob = {
+  state: "running" | "done" | "error"
+  phase: "model" | "scanning" | "indexing"
+  total: number
+  processed: number
+  indexed: number
+  removed: number
+  chunks: number
+  rebuildReason?: string
+  error?: string
+}
+
+type BackgroundOptions = {
+  config: SemanticConfig
+  onProgress?: (progress: IndexProgress) => void
+  onDone?: (result: Awaited<ReturnType<typeof ensureSemanticIndex>>) => void
+}
+
+const jobs = new Map<string, { job: IndexJob; controller: AbortController }>()
+
+export function startBackgroundIndex(worktree: string, options: BackgroundOptions) {
+  const running = jobs.get(worktree)
+  if (running?.job.state === "running") return running.job
+
+  const controller = new AbortController()
+  const job: IndexJob = { state: "running", phase: "model", total: 0, processed: 0, indexed: 0, removed: 0, chunks: 0 }
+  jobs.set(worktree, { job, controller })
+
+  const run = async () => {
+    await ensureModel(worktree, options.config.embedding)
+    job.phase = "scanning"
+    const result = await ensureSemanticIndex(worktree, {
+      mode: "changed",
+      config: options.config,
+      sliceSize: options.config.sliceSize,
+      signal: controller.signal,
+      onProgress: (progress) => {
+        job.phase = "indexing"
+        job.total = progress.total
+        job.processed = progress.processed
+        job.indexed = progress.indexed
+        job.removed = progress.removed
+        job.chunks = progress.chunks
+        job.rebuildReason = progress.rebuildReason
+        options.onProgress?.(progress)
+      },
+    })
+    job.state = "done"
+    options.onDone?.(result)
+  }
+
+  // Defer to the next tick so plugin startup never waits on indexing work
+  setTimeout(() => {
+    run().catch((error) => {
+      job.state = "error"
+      job.error = error instanceof Error ? error.message : String(error)
+    })
+  }, 0)
+
+  return job
+}
+
+export function stopBackgroundIndex(worktree: string) {
+  jobs.get(worktree)?.controller.abort()
+}
+
+export function getIndexJob(worktree: string) {
+  return jobs.get(worktree)?.job
+}
+
+/** One-line notice for tool output while the index is incomplete, or undefined when it is current. */
+export function describeIndexJob(job: IndexJob | undefined) {
+  if (!job || job.state === "done") return undefined
+  if (job.state === "error") return `Background indexing failed: ${job.error}. Results may be stale.`
+  if (job.phase === "model") return "Embedding model is downloading; showing keyword matches only."
+  if (job.phase === "scanning" || job.total === 0) return "Index is scanning for changes; results may be partial."
+  const percent = Math.floor((job.processed / job.total) * 100)
+  const rebuild = job.rebuildReason ? ` Rebuilding because the ${job.rebuildReason}.` : ""
+  return `Index ${percent}% complete (${job.processed}/${job.total} files); results may be partial.${rebuild}`
+}
+
+/**
+ * What a search tool reports before querying: the job notice, and `unavailable` with the reply
+ * to return instead when there is no index on disk yet.
+ */
+export async function checkSemanticIndex(worktree: string) {
+  const job = getIndexJob(worktree)
+  const notice = describeIndexJob(job)
+  const exists = await Bun.file(getDbPath(worktree)).exists()
+  const unavailable = exists ? undefined : (notice ?? "Semantic index not found. Run chat_semantic_index first.")
+  return { job, notice, unavailable }
+}
@@ -1,16 +1,47 @@
 /**
  * Text chunking strategies for semantic indexing.
- * Splits files into embeddable chunks respecting content boundaries.
+ * Splits files into display blocks respecting content boundaries, then slides token-sized
+ * windows over each block so every line is inside some input the model actually reads.
  */
 import * as path from "path"
+import { chunkCode } from "./code-chunker.js"
+import { chunkData, BREADCRUMB_SEPARATOR } from "./data-chunker.js"
+import { lineTokens, windowBudget } from "./tokens.js"
+import { createFenceTracker } from "../util/text.js"
 
 const MAX_CHUNK_CHARS = 6000
 
+// Bump whenever chunk boundaries or content change; stored indexes are rebuilt on mismatch
+export const CHUNKER_VERSION = 5
+
+export type ChunkOptions = {
+  // Token budget of one embedded window, normally the model's sequence limit
+  maxTokens: number
+  overlapTokens: number
+}
+
 export type Chunk = {
   path: string
+  // Lines that were embedded
   startLine: number
   endLine: number
   content: string
+  // Enclosing block shown to the reader, at least as large as the embedded lines
+  displayStart: number
+  displayEnd: number
+  // Declaration the lines belong to in source files, e.g. "createChatTools" / "function"
+  symbol?: string
+  symbolKind?: string
+}
+
+export type Block = Omit<Chunk, "displayStart" | "displayEnd"> & {
+  // Embedded ahead of every window of the block but not part of its lines, e.g. a CSV header
+  prefix?: string
+}
+
+/** Identifies the chunker and its settings; any change invalidates stored chunks. */
+export function chunkerSignature(options: ChunkOptions) {
+  return `${CHUNKER_VERSION}:${options.maxTokens}:${options.overlapTokens}`
 }
 
 function linesToText(lines: string[]) {
@@ -93,34 +124,57 @@ function splitByParagraphs(lines: string[], startLine: number, maxChars: number)
   return chunks
 }
 
-function chunkMarkdown(filePath: string, text: string): Chunk[] {
+const HEADING_PATTERN = /^(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/
+// Frontmatter title, else the first top-level heading, else the file name
+function markdownTitle(filePath: string, lines: string[], frontmatterEnd: number) {
+  for (let i = 1; i < frontmatterEnd; i++) {
+    const title = /^title:\s*(.+?)\s*$/.exec(lines[i])
+    if (title) return title[1].replace(/^(["'])(.*)\1$/, "$2")
+  }
+  const inFence = createFenceTracker()
+  for (let i = Math.max(0, frontmatterEnd + 1); i < lines.length; i++) {
+    if (inFence(lines[i])) continue
+    const heading = HEADING_PATTERN.exec(lines[i])
+    if (heading?.[1] === "#") return heading[2]
+  }
+  return path.basename(filePath, path.extname(filePath))
+}
+
+function chunkMarkdown(filePath: string, text: string): Block[] {
   const lines = text.split("\n")
-  const chunks: Chunk[] = []
+  const chunks: Block[] = []
   let index = 0
 
+  let frontmatterEnd = -1
   if (lines[0] === "---") {
-    let end = -1
     for (let i = 1; i < lines.length; i++) {
       if (lines[i] === "---") {
-        end = i
+        frontmatterEnd = i
         break
       }
     }
-    if (end > 0) {
-      chunks.push({ path: filePath, startLine: 1, endLine: end + 1, content: linesToText(lines.slice(0, end + 1)) })
-      index = end + 1
+    if (frontmatterEnd > 0) {
+      chunks.push({ path: filePath, startLine: 1, endLine: frontmatterEnd + 1, content: linesToText(lines.slice(0, frontmatterEnd + 1)) })
+      index = frontmatterEnd + 1
     }
   }
 
+  const title = markdownTitle(filePath, lines, frontmatterEnd)
+  const headings: Array<{ level: number; text: string }> = []
   let sectionStart = index
   let sectionLines: string[] = []
+  let trail: string[] = []
 
   const flushSection = (startLine: number, linesToFlush: string[]) => {
     if (linesToFlush.length === 0) return
+    // The embedded text starts with where the section sits, so "Configuration" under "Database" keeps its meaning
+    const breadcrumb = trail.length > 0 ? trail.join(BREADCRUMB_SEPARATOR) : undefined
+    const prefix = (trail[0] === title ? trail : [title, ...trail]).join(BREADCRUMB_SEPARATOR)
+    const section = { path: filePath, symbol: breadcrumb, symbolKind: breadcrumb ? "section" : undefined, prefix }
     const textContent = linesToText(linesToFlush)
     if (textContent.length <= MAX_CHUNK_CHARS) {
       chunks.push({
-        path: filePath,
+        ...section,
         startLine: startLine + 1,
         endLine: startLine + linesToFlush.length,
         content: textContent,
@@ -128,14 +182,20 @@ function chunkMarkdown(filePath: string, text: string): Chunk[] {
       return
     }
     for (const chunk of splitByParagraphs(linesToFlush, startLine + 1, MAX_CHUNK_CHARS)) {
-      chunks.push({ path: filePath, startLine: chunk.start, endLine: chunk.end, content: linesToText(chunk.lines) })
+      chunks.push({ ...section, startLine: chunk.start, endLine: chunk.end, content: linesToText(chunk.lines) })
     }
   }
 
+  const inFence = createFenceTracker()
   for (let i = index; i < lines.length; i++) {
     const line = lines[i]
-    if (line.startsWith("#")) {
+    const heading = inFence(line) ? undefined : HEADING_PATTERN.exec(line)
+    if (heading) {
       flushSection(sectionStart, sectionLines)
+      const level = heading[1].length
+      while (headings.length > 0 && headings[headings.length - 1].level >= level) headings.pop()
+      headings.push({ level, text: heading[2] })
+      trail = headings.map((h) => h.text)
       sectionStart = i
       sectionLines = [line]
       continue
@@ -147,9 +207,9 @@ function chunkMarkdown(filePath: string, text: string): Chunk[] {
   return chunks
 }
 
-function chunkText(filePath: string, text: string): Chunk[] {
+function chunkText(filePath: string, text: string): Block[] {
   const lines = text.split("\n")
-  const chunks: Chunk[] = []
+  const chunks: Block[] = []
   let current: string[] = []
   let currentStart = 1
   let currentLen = 0
@@ -186,8 +246,54 @@ function chunkText(filePath: string, text: string): Chunk[] {
   return chunks
 }
 
-export function chunkFile(filePath: string, text: string): Chunk[] {
+// Overlapping windows of whole lines, each within the token budget unless a single line exceeds it
+function windowBlock(block: Block, options: ChunkOptions): Chunk[] {
+  const lines = block.content.split("\n")
+  const tokens = lines.map(lineTokens)
+  const budget = windowBudget(options.maxTokens, block.prefix)
+  const prefix = block.prefix ? `${block.prefix}\n` : ""
+  const windows: Chunk[] = []
+
+  let start = 0
+  while (start < lines.length) {
+    let end = start
+    let used = 0
+    while (end < lines.length && (end === start || used + tokens[end] <= budget)) {
+      used += tokens[end]
+      end += 1
+    }
+    const content = lines.slice(start, end).join("\n")
+    if (content.trim()) {
+      windows.push({
+        path: block.path,
+        startLine: block.startLine + start,
+        endLine: block.startLine + end - 1,
+        content: prefix + content,
+        displayStart: block.startLine,
+        displayEnd: block.endLine,
+        symbol: block.symbol,
+        symbolKind: block.symbolKind,
+      })
+    }
+    if (end >= lines.length) break
+
+    // Step back over trailing lines worth up to overlapTokens, always advancing at least one line
+    let next = end
+    let carried = 0
+    while (next - 1 > start && carried + tokens[next - 1] <= options.overlapTokens) {
+      next -= 1
+      carried += tokens[next]
+    }
+    start = next
+  }
+  return windows
+}
+
+export function chunkFile(filePath: string, text: string, options: ChunkOptions): Chunk[] {
   const ext = path.extname(filePath).toLowerCase()
-  if (ext === ".md" || ext === ".mdx") return chunkMarkdown(filePath, text)
-  return chunkText(filePath, text)
+  const blocks =
+    ext === ".md" || ext === ".mdx"
+      ? chunkMarkdown(filePath, text)
+      : (chunkCode(filePath, text) ?? chunkData(filePath, text, windowBudget(options.maxTokens)) ?? chunkText(filePath, text))
+  return blocks.flatMap((block) => windowBlock(block, options))
 }
@@ -0,0 +1,221 @@
+/**
+ * Declaration-based chunking for source files.
+ * Splits TypeScript/JavaScript, Python, Go and Rust at top-level declarations (and large classes
+ * at their methods) using line patterns, so chunks follow symbols instead of character counts.
+ */
+import * as path from "path"
+import type { Block } from "./chunker.js"
+
+// Classes longer than this are split into one block per method
+const SPLIT_CONTAINER_LINES = 60
+
+type Symbol = { name: string; kind: string }
+
+type Language = {
+  declaration(line: string): Symbol | undefined
+  // Members inside a class/impl/trait body, matched with the body's indentation stripped
+  member?(line: string): Symbol | undefined
+  // Comment, decorator and attribute lines that belong to the declaration below them
+  leading: RegExp
+  memberSeparator: string
+  containers: string[]
+}
+
+const NOT_METHODS = new Set(["if", "for", "while", "switch", "catch", "return", "function", "else", "do", "with"])
+
+const typescript: Language = {
+  declaration(line) {
+    const decl =
+      /^(?:export\s+)?(?:default\s+)?(?:declare\s+)?(?:async\s+)?(function\*?|class|abstract\s+class|interface|type|enum|const\s+enum|namespace|module)\s+([\w$]+)/.exec(
+        line,
+      )
+    if (decl) {
+      const keyword = decl[1].replace(/\*$/, "").split(/\s+/).pop() as string
+      const kind = keyword === "module" ? "namespace" : keyword
+      return { name: decl[2], kind }
+    }
+    const variable = /^(?:export\s+)?(?:const|let|var)\s+([\w$]+)\s*(?::[^=]*)?=\s*(async\b|function\b|\(|[\w$]+\s*=>)?/.exec(line)
+    if (variable) return { name: variable[1], kind: variable[2] ? "function" : "variable" }
+    return undefined
+  },
+  member(line) {
+    const method =
+      /^(?:(?:public|private|protected|static|readonly|async|abstract|override|get|set)\s+)*(#?[\w$]+)\s*(?:<[^>]*>)?\s*(?:\(|=\s*(?:async\s*)?\()/.exec(
+        line,
+      )
+    if (!method || NOT_METHODS.has(method[1])) return undefined
+    return { name: method[1], kind: "method" }
+  },
+  leading: /^(\/\/|\/\*|\*|@)/,
+  memberSeparator: ".",
+  containers: ["class"],
+}
+
+const python: Language = {
+  declaration(line) {
+    const fn = /^(?:async\s+)?def\s+(\w+)/.exec(line)
+    if (fn) return { name: fn[1], kind: "function" }
+    const cls = /^class\s+(\w+)/.exec(line)
+    if (cls) return { name: cls[1], kind: "class" }
+    return undefined
+  },
+  member(line) {
+    const fn = /^(?:async\s+)?def\s+(\w+)/.exec(line)
+    return fn ? { name: fn[1], kind: "method" } : undefined
+  },
+  leading: /^(#|@)/,
+  memberSeparator: ".",
+  containers: ["class"],
+}
+
+const go: Language = {
+  declaration(line) {
+    const method = /^func\s+\(\s*\w*\s*\*?\s*(\w+)(?:\[[^\]]*\])?\s*\)\s*(\w+)/.exec(line)
+    if (method) return { name: `${method[1]}.${method[2]}`, kind: "method" }
+    const fn = /^func\s+(\w+)/.exec(line)
+    if (fn) return { name: fn[1], kind: "function" }
+    const type = /^type\s+(\w+)(?:\[[^\]]*\])?\s+(struct|interface)?/.exec(line)
+    if (type) return { name: type[1], kind: type[2] ?? "type" }
+    const value = /^(?:var|const)\s+(\w+)/.exec(line)
+    if (value) return { name: value[1], kind: "variable" }
+    return undefined
+  },
+  leading: /^(\/\/|\/\*|\*)/,
+  memberSeparator: ".",
+  containers: [],
+}
+
+const RUST_VISIBILITY = String.raw`(?:pub(?:\([^)]*\))?\s+)?`
+const RUST_FN = new RegExp(`^${RUST_VISIBILITY}(?:(?:default|async|const|unsafe|extern\\s+"[^"]*")\\s+)*fn\\s+(\\w+)`)
+
+const rust: Language = {
+  declaration(line) {
+    const fn = RUST_FN.exec(line)
+    if (fn) return { name: fn[1], kind: "function" }
+    const item = new RegExp(`^${RUST_VISIBILITY}(struct|enum|trait|union|mod|type|const|static)\\s+(\\w+)`).exec(line)
+    if (item) return { name: item[2], kind: item[1] }
+    const impl = /^(?:unsafe\s+)?impl(?:<.*?>)?\s+(?:.+?\s+for\s+)?(?:[\w]+::)*(\w+)/.exec(line)
+    if (impl) return { name: impl[1], kind: "impl" }
+    const macro = /^macro_rules!\s*(\w+)/.exec(line)
+    if (macro) return { name: macro[1], kind: "macro" }
+    return undefined
+  },
+  member(line) {
+    const fn = RUST_FN.exec(line)
+    return fn ? { name: fn[1], kind: "method" } : undefined
+  },
+  leading: /^(\/\/|\/\*|\*|#\[|#!)/,
+  memberSeparator: "::",
+  containers: ["impl", "trait"],
+}
+
+const LANGUAGES: Record<string, Language> = {
+  ".ts": typescript,
+  ".tsx": typescript,
+  ".mts": typescript,
+  ".cts": typescript,
+  ".js": typescript,
+  ".jsx": typescript,
+  ".mjs": typescript,
+  ".cjs": typescript,
+  ".py": python,
+  ".go": go,
+  ".rs": rust,
+}
+
+type Declaration = Symbol & { start: number }
+
+function indentOf(line: string) {
+  return line.length - line.trimStart().length
+}
+
+// Declarations starting at exactly `indent`, each pulled up over its leading comments and decorators
+function findDeclarations(
+  lines: string[],
+  from: number,
+  to: number,
+  indent: number,
+  match: (line: string) => Symbol | undefined,
+  leading: RegExp,
+) {
+  const found: Declaration[] = []
+  for (let i = from; i < to; i++) {
+    const line = lines[i]
+    if (!line.trim() || indentOf(line) !== indent) continue
+    const symbol = match(line.slice(indent))
+    if (!symbol) continue
+    let start = i
+    while (start - 1 >= from && lines[start - 1].trim() && indentOf(lines[start - 1]) === indent) {
+      if (!leading.test(lines[start - 1].trim())) break
+      start -= 1
+    }
+    if (found.length > 0 && start <= found[found.length - 1].start) continue
+    found.push({ ...symbol, start })
+  }
+  return found
+}
+
+function lastContentLine(lines: string[], from: number, to: number) {
+  let end = to - 1
+  while (end > from && !lines[end].trim()) end -= 1
+  return end
+}
+
+function toBlock(filePath: string, lines: string[], from: number, to: number, symbol?: Symbol): Block | undefined {
+  const end = lastContentLine(lines, from, to)
+  const content = lines.slice(from, end + 1).join("\n")
+  if (!content.trim()) return undefined
+  return { path: filePath, startLine: from + 1, endLine: end + 1, content, symbol: symbol?.name, symbolKind: symbol?.kind }
+}
+
+// Large classes become a header block plus one block per member, named Class.member
+function splitContainer(
+  filePath: string,
+  lines: string[],
+  from: number,
+  to: number,
+  container: Declaration,
+  language: Language,
+) {
+  if (!language.member || to - from <= SPLIT_CONTAINER_LINES) return undefined
+  let header = from
+  while (header < to && !language.declaration(lines[header].trimStart())) header += 1
+  let bodyLine = header + 1
+  while (bodyLine < to && !lines[bodyLine].trim()) bodyLine += 1
+  if (bodyLine >= to) return undefined
+
+  const members = findDeclarations(lines, bodyLine, to, indentOf(lines[bodyLine]), language.member, language.leading)
+  if (members.length === 0) return undefined
+
+  const blocks: Array<Block | undefined> = [toBlock(filePath, lines, from, members[0].start, container)]
+  members.forEach((member, index) => {
+    const end = index + 1 < members.length ? members[index + 1].start : to
+    const name = `${container.name}${language.memberSeparator}${member.name}`
+    blocks.push(toBlock(filePath, lines, member.start, end, { name, kind: member.kind }))
+  })
+  return blocks
+}
+
+/**
+ * Splits a source file into declaration blocks, or returns undefined for unsupported languages
+ * and files without recognizable declarations so the caller can fall back to plain text.
+ */
+export function chunkCode(filePath: string, text: string): Block[] | undefined {
+  const language = LANGUAGES[path.extname(filePath).toLowerCase()]
+  if (!language) return undefined
+
+  const lines = text.split("\n")
+  const declarations = findDeclarations(lines, 0, lines.length, 0, language.declaration, language.leading)
+  if (declarations.length === 0) return undefined
+
+  // Imports and file headers before the first declaration form their own unnamed block
+  const blocks: Array<Block | undefined> = [toBlock(filePath, lines, 0, declarations[0].start)]
+  declarations.forEach((declaration, index) => {
+    const end = index + 1 < declarations.length ? declarations[index + 1].start : lines.length
+    const split = language.containers.includes(declaration.kind)
+      ? splitContainer(filePath, lines, declaration.start, end, declaration, language)
+      : undefined
+    blocks.push(...(split ?? [toBlock(filePath, lines, declaration.start, end, declaration)]))
+  })
+  return blocks.filter((block): block is Block => block !== undefined)
+}
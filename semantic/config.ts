@@ -0,0 +1,272 @@
+/**
+ * Semantic indexer configuration.
+ * Merges built-in defaults, plugin options from opencode.json, and .opencode/chat/config.json,
+ * validating every value so typos fail loudly instead of silently indexing the wrong files.
+ */
+import * as path from "path"
+import * as os from "os"
+import * as fs from "fs/promises"
+import { FASTEMBED_MODELS } from "./providers/fastembed.js"
+
+const CONFIG_PATH = path.join(".opencode", "chat", "config.json")
+const PACKAGE_NAME = "@howaboua/opencode-chat"
+const OPENCODE_CONFIG_FILES = ["opencode.json", "opencode.jsonc"]
+const EMBEDDING_PROVIDERS = ["fastembed", "openai", "hash"] as const
+const DEFAULT_OPENAI_URL = "http://localhost:11434/v1"
+const DEFAULT_HASH_DIMENSION = 256
+
+export type EmbeddingConfig = {
+  provider: (typeof EMBEDDING_PROVIDERS)[number]
+  model: string
+  url?: string
+  dimension?: number
+  // Overrides the provider's input token limit that chunks are sized to
+  maxTokens?: number
+  // Name of the environment variable holding the endpoint's API key, never the key itself
+  apiKeyEnv?: string
+}
+
+export type SemanticConfig = {
+  extensions: string[]
+  skipDirs: string[]
+  maxFileBytes: number
+  maxChunksPerFile: number
+  embedBatchSize: number
+  sliceSize: number
+  // Tokens repeated between consecutive chunks so text on a boundary is embedded whole at least once
+  chunkOverlapTokens: number
+  // Keeps vectors in memory as int8, a quarter of the memory for a small loss in ranking precision
+  quantize: boolean
+  embedding: EmbeddingConfig
+}
+
+export const DEFAULT_SEMANTIC_CONFIG: SemanticConfig = {
+  extensions: [
+    ".md",
+    ".mdx",
+    ".txt",
+    ".ts",
+    ".tsx",
+    ".js",
+    ".jsx",
+    ".json",
+    ".jsonc",
+    ".yml",
+    ".yaml",
+    ".toml",
+    ".csv",
+    ".tsv",
+    ".py",
+    ".go",
+    ".rs",
+    ".java",
+    ".c",
+    ".cpp",
+    ".h",
+    ".hpp",
+    ".css",
+    ".html",
+    ".sh",
+    ".bash",
+    ".zsh",
+  ],
+  skipDirs: [".git", "node_modules", ".opencode", "dist", "build", "out", ".next", ".turbo", "coverage"],
+  maxFileBytes: 1024 * 1024,
+  maxChunksPerFile: 1000,
+  embedBatchSize: 16,
+  sliceSize: 100,
+  chunkOverlapTokens: 32,
+  quantize: false,
+  embedding: { provider: "fastembed", model: "AllMiniLML6V2" },
+}
+
+// extensions and skipDirs extend the defaults; numeric limits replace them
+const LIST_KEYS = ["extensions", "skipDirs"] as const
+const NUMBER_KEYS = ["maxFileBytes", "maxChunksPerFile", "embedBatchSize", "sliceSize", "chunkOverlapTokens"] as const
+// Zero is meaningful for these, e.g. no overlap between chunks
+const ZERO_ALLOWED_KEYS: readonly string[] = ["chunkOverlapTokens"]
+const BOOLEAN_KEYS = ["quantize"] as const
+const EMBEDDING_KEYS = ["provider", "model", "url", "dimension", "maxTokens", "apiKeyEnv"]
+
+function readStringList(value: unknown, key: string, source: string) {
+  if (!Array.isArray(value) || value.some((item) => typeof item !== "string" || item.trim() === "")) {
+    throw new Error(`Invalid ${source}: "${key}" must be an array of non-empty strings`)
+  }
+  return value.map((item: string) => item.trim())
+}
+
+function normalizeExtension(ext: string) {
+  const lower = ext.toLowerCase()
+  return lower.startsWith(".") ? lower : `.${lower}`
+}
+
+function readOptionalString(raw: Record<string, unknown>, key: string, source: string) {
+  const value = raw[key]
+  if (value === undefined) return undefined
+  if (typeof value !== "string" || value.trim() === "") {
+    throw new Error(`Invalid ${source}: "embedding.${key}" must be a non-empty string`)
+  }
+  return value.trim()
+}
+
+function readOptionalInteger(raw: Record<string, unknown>, key: string, source: string) {
+  const value = raw[key]
+  if (value === undefined) return undefined
+  if (typeof value !== "number" || !Number.isInteger(value) || value <= 0) {
+    throw new Error(`Invalid ${source}: "embedding.${key}" must be a positive integer, got ${JSON.stringify(value)}`)
+  }
+  return value
+}
+
+// The embedding block is replaced as a whole; mixing fields from two providers is never intended
+function resolveEmbeddingConfig(input: unknown, source: string): EmbeddingConfig {
+  if (typeof input !== "object" || input === null || Array.isArray(input)) {
+    throw new Error(`Invalid ${source}: "embedding" must be an object`)
+  }
+  const raw = input as Record<string, unknown>
+  const unknown = Object.keys(raw).filter((key) => !EMBEDDING_KEYS.includes(key))
+  if (unknown.length > 0) {
+    throw new Error(`Invalid ${source}: unknown embedding option(s) ${unknown.join(", ")}. Allowed: ${EMBEDDING_KEYS.join(", ")}`)
+  }
+
+  const provider = raw.provider ?? "fastembed"
+  if (!EMBEDDING_PROVIDERS.includes(provider as EmbeddingConfig["provider"])) {
+    throw new Error(`Invalid ${source}: "embedding.provider" must be one of ${EMBEDDING_PROVIDERS.join(", ")}`)
+  }
+
+  const model = readOptionalString(raw, "model", source)
+  const url = readOptionalString(raw, "url", source)
+  const apiKeyEnv = readOptionalString(raw, "apiKeyEnv", source)
+  const dimension = readOptionalInteger(raw, "dimension", source)
+  const maxTokens = readOptionalInteger(raw, "maxTokens", source)
+
+  if (provider === "fastembed") {
+    const name = model ?? DEFAULT_SEMANTIC_CONFIG.embedding.model
+    if (!FASTEMBED_MODELS.includes(name)) {
+      throw new Error(`Invalid ${source}: "embedding.model" for fastembed must be one of ${FASTEMBED_MODELS.join(", ")}`)
+    }
+    return { provider, model: name, maxTokens }
+  }
+
+  if (provider === "openai") {
+    if (!model) throw new Error(`Invalid ${source}: "embedding.model" is required for the openai provider`)
+    const endpoint = url ?? DEFAULT_OPENAI_URL
+    if (!URL.canParse(endpoint)) throw new Error(`Invalid ${source}: "embedding.url" is not a valid URL: ${endpoint}`)
+    return { provider, model, url: endpoint, dimension, maxTokens, apiKeyEnv }
+  }
+
+  return { provider: "hash", model: "", dimension: dimension ?? DEFAULT_HASH_DIMENSION, maxTokens }
+}
+
+/** Validates a raw config object from `source` and layers it over `base`. */
+export function resolveSemanticConfig(input: unknown, source: string, base = DEFAULT_SEMANTIC_CONFIG) {
+  if (input === undefined) return base
+  if (typeof input !== "object" || input === null || Array.isArray(input)) {
+    throw new Error(`Invalid ${source}: expected a JSON object`)
+  }
+
+  const raw = input as Record<string, unknown>
+  const known: readonly string[] = [...LIST_KEYS, ...NUMBER_KEYS, ...BOOLEAN_KEYS, "embedding"]
+  const unknown = Object.keys(raw).filter((key) => !known.includes(key))
+  if (unknown.length > 0) {
+    throw new Error(`Invalid ${source}: unknown option(s) ${unknown.join(", ")}. Allowed: ${known.join(", ")}`)
+  }
+
+  const config: SemanticConfig = { ...base }
+
+  if (raw.extensions !== undefined) {
+    const extensions = readStringList(raw.extensions, "extensions", source).map(normalizeExtension)
+    config.extensions = [...new Set([...base.extensions, ...extensions])]
+  }
+
+  if (raw.skipDirs !== undefined) {
+    const skipDirs = readStringList(raw.skipDirs, "skipDirs", source)
+    const nested = skipDirs.find((dir) => dir.includes("/") || dir.includes("\\"))
+    if (nested) {
+      throw new Error(`Invalid ${source}: "skipDirs" entries are directory names, not paths ("${nested}")`)
+    }
+    config.skipDirs = [...new Set([...base.skipDirs, ...skipDirs])]
+  }
+
+  for (const key of NUMBER_KEYS) {
+    const value = raw[key]
+    if (value === undefined) continue
+    const min = ZERO_ALLOWED_KEYS.includes(key) ? 0 : 1
+    if (typeof value !== "number" || !Number.isInteger(value) || value < min) {
+      const expected = min === 0 ? "a non-negative integer" : "a positive integer"
+      throw new Error(`Invalid ${source}: "${key}" must be ${expected}, got ${JSON.stringify(value)}`)
+    }
+    config[key] = value
+  }
+
+  for (const key of BOOLEAN_KEYS) {
+    const value = raw[key]
+    if (value === undefined) continue
+    if (typeof value !== "boolean") {
+      throw new Error(`Invalid ${source}: "${key}" must be true or false, got ${JSON.stringify(value)}`)
+    }
+    config[key] = value
+  }
+
+  if (raw.embedding !== undefined) config.embedding = resolveEmbeddingConfig(raw.embedding, source)
+
+  return config
+}
+
+// OpenCode configs may carry comments and trailing commas; strings are matched first so they stay intact
+function parseJsonc(text: string): unknown {
+  const stripped = text.replace(/("(?:\\.|[^"\\])*")|\/\/[^\n]*|\/\*[\s\S]*?\*\//g, (_match, str?: string) => str ?? "")
+  return JSON.parse(stripped.replace(/("(?:\\.|[^"\\])*")|,(\s*[}\]])/g, (match, str?: string, close?: string) => str ?? close ?? match))
+}
+
+/**
+ * This plugin's options from an OpenCode config, as OpenCode would pass them, so scripts run
+ * outside OpenCode index with the same settings. The project's opencode.json(c) is read before
+ * the global one; a plugin entry without options yields undefined.
+ */
+export async function readPluginOptions(worktree: string) {
+  const globalDir = path.join(process.env.XDG_CONFIG_HOME ?? path.join(os.homedir(), ".config"), "opencode")
+  for (const dir of [worktree, globalDir]) {
+    for (const name of OPENCODE_CONFIG_FILES) {
+      const configPath = path.join(dir, name)
+      const text = await fs.readFile(configPath, "utf-8").catch(() => undefined)
+      if (text === undefined) continue
+
+      let parsed: unknown
+      try {
+        parsed = parseJsonc(text)
+      } catch (error) {
+        throw new Error(`Invalid ${configPath}: ${error instanceof Error ? error.message : String(error)}`)
+      }
+      const plugins = (parsed as { plugin?: unknown } | null)?.plugin
+      if (!Array.isArray(plugins)) continue
+      for (const entry of plugins) {
+        const spec = Array.isArray(entry) ? entry[0] : entry
+        // "@scope/name@1.2.3" and "@scope/name@latest" name the same package
+        if (typeof spec !== "string" || spec.replace(/(?<=.)@[^/@]*$/, "") !== PACKAGE_NAME) continue
+        return Array.isArray(entry) ? (entry[1] as Record<string, unknown> | undefined) : undefined
+      }
+    }
+  }
+  return undefined
+}
+
+/**
+ * Loads the effective config for a worktree.
+ * Plugin options apply first; the project's .opencode/chat/config.json overrides them.
+ */
+export async function loadSemanticConfig(worktree: string, pluginOptions?: Record<string, unknown>) {
+  const fromOptions = resolveSemanticConfig(pluginOptions, "plugin options in opencode.json")
+
+  const configPath = path.join(worktree, CONFIG_PATH)
+  const text = await fs.readFile(configPath, "utf-8").catch(() => undefined)
+  if (text === undefined) return fromOptions
+
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(text)
+  } catch (error) {
+    throw new Error(`Invalid ${configPath}: ${error instanceof Error ? error.message : String(error)}`)
+  }
+  return resolveSemanticConfig(parsed, configPath, fromOptions)
+}
@@ -0,0 +1,327 @@
+/**
+ * Structure-aware chunking for data files.
+ * Splits JSON, YAML and TOML along key paths so each chunk is a coherent subtree, and CSV/TSV
+ * into row groups that carry the header row into every embedded window.
+ */
+import * as path from "path"
+import type { Block } from "./chunker.js"
+import { lineTokens } from "./tokens.js"
+
+export const BREADCRUMB_SEPARATOR = " › "
+
+// A key or list item and the 0-based inclusive line range of its value
+type DataNode = {
+  keys: string[]
+  start: number
+  end: number
+  children: DataNode[]
+}
+
+function createNode(keys: string[], start: number): DataNode {
+  return { keys, start, end: start, children: [] }
+}
+
+function unquote(key: string) {
+  const trimmed = key.trim()
+  return /^(["']).*\1$/.test(trimmed) ? trimmed.slice(1, -1) : trimmed
+}
+
+function parseJson(text: string, lineCount: number): DataNode | undefined {
+  const newlines: number[] = []
+  for (let i = 0; i < text.length; i++) if (text[i] === "\n") newlines.push(i)
+  const lineAt = (offset: number) => {
+    let low = 0
+    let high = newlines.length
+    while (low < high) {
+      const mid = (low + high) >> 1
+      if (newlines[mid] < offset) low = mid + 1
+      else high = mid
+    }
+    return low
+  }
+
+  let i = 0
+  const fail = (): never => {
+    throw new SyntaxError(`Unexpected input at offset ${i}`)
+  }
+  // Whitespace plus the // and /* */ comments tsconfig-style files allow
+  const skip = () => {
+    while (i < text.length) {
+      if (/\s/.test(text[i])) i += 1
+      else if (text.startsWith("//", i)) i = text.includes("\n", i) ? text.indexOf("\n", i) : text.length
+      else if (text.startsWith("/*", i)) i = text.includes("*/", i) ? text.indexOf("*/", i) + 2 : fail()
+      else return
+    }
+  }
+  const readString = () => {
+    const start = i
+    i += 1
+    while (i < text.length) {
+      if (text[i] === "\\") i += 2
+      else if (text[i] === '"') return text.slice(start + 1, i++)
+      else i += 1
+    }
+    return fail()
+  }
+  const readValue = (keys: string[], start: number): DataNode => {
+    skip()
+    const node = createNode(keys, lineAt(start))
+    const open = text[i]
+    if (open === "{" || open === "[") {
+      const close = open === "{" ? "}" : "]"
+      i += 1
+      skip()
+      while (text[i] !== close) {
+        let child: DataNode
+        if (open === "{") {
+          if (text[i] !== '"') fail()
+          const keyStart = i
+          const key = readString()
+          skip()
+          if (text[i] !== ":") fail()
+          i += 1
+          child = readValue([key], keyStart)
+        } else {
+          child = readValue([`[${node.children.length}]`], i)
+        }
+        node.children.push(child)
+        skip()
+        if (text[i] === ",") {
+          i += 1
+          skip()
+        } else if (text[i] !== close) {
+          fail()
+        }
+      }
+      i += 1
+    } else if (open === '"') {
+      readString()
+    } else {
+      const scalar = /^[^\s,\]}]+/.exec(text.slice(i, i + 64))
+      if (!scalar) fail()
+      i += scalar![0].length
+    }
+    node.end = lineAt(i - 1)
+    return node
+  }
+
+  try {
+    skip()
+    const root = readValue([], i)
+    skip()
+    if (i < text.length) return undefined
+    return { ...root, start: 0, end: lineCount - 1 }
+  } catch {
+    return undefined
+  }
+}
+
+function parseYaml(lines: string[]): DataNode {
+  const root = createNode([], 0)
+  root.end = lines.length - 1
+  // List items count as one column deeper than their dash so `key:` followed by `- item` at the same indent nests
+  const stack: Array<{ node: DataNode; depth: number }> = [{ node: root, depth: -1 }]
+  let lastContent = 0
+  const closeTo = (depth: number) => {
+    while (stack.length > 1 && stack[stack.length - 1].depth >= depth) {
+      ;(stack.pop() as { node: DataNode }).node.end = lastContent
+    }
+  }
+
+  for (let i = 0; i < lines.length; i++) {
+    const trimmed = lines[i].trim()
+    if (!trimmed || trimmed.startsWith("#")) continue
+    if (trimmed === "---" || trimmed === "...") {
+      closeTo(0)
+      lastContent = i
+      continue
+    }
+    const indent = lines[i].length - lines[i].trimStart().length
+    const item = trimmed === "-" || trimmed.startsWith("- ")
+    const key = item ? undefined : /^("[^"]*"|'[^']*'|[^\s#'"{[][^#]*?):(\s|$)/.exec(trimmed)
+    if (item || key) {
+      const depth = item ? indent + 1 : indent
+      closeTo(depth)
+      const parent = stack[stack.length - 1].node
+      const node = createNode([item ? `[${parent.children.length}]` : unquote(key![1])], i)
+      parent.children.push(node)
+      stack.push({ node, depth })
+    }
+    lastContent = i
+  }
+  closeTo(0)
+  return root
+}
+
+function parseToml(lines: string[]): DataNode {
+  const root = createNode([], 0)
+  root.end = lines.length - 1
+  const arrayCounts = new Map<string, number>()
+  let table = root
+  let lastContent = 0
+  const closeLast = (node: DataNode) => {
+    const last = node.children[node.children.length - 1]
+    if (last) last.end = lastContent
+  }
+
+  for (let i = 0; i < lines.length; i++) {
+    const trimmed = lines[i].trim()
+    if (!trimmed || trimmed.startsWith("#")) continue
+    const header = /^\[(\[?)\s*([^\]]+?)\s*\]\]?/.exec(trimmed)
+    if (header) {
+      closeLast(table)
+      if (table !== root) table.end = lastContent
+      const keys = (header[2].match(/"[^"]*"|'[^']*'|[^.]+/g) ?? []).map(unquote)
+      if (header[1]) {
+        const name = keys.join(".")
+        const index = arrayCounts.get(name) ?? 0
+        arrayCounts.set(name, index + 1)
+        keys.push(`[${index}]`)
+      }
+      table = createNode(keys, i)
+      root.children.push(table)
+    } else if (/^("[^"]*"|'[^']*'|[\w.\- ]+?)\s*=/.test(trimmed) && !/^\s/.test(lines[i])) {
+      closeLast(table)
+      const key = /^("[^"]*"|'[^']*'|[\w.\- ]+?)\s*=/.exec(trimmed)![1]
+      table.children.push(createNode([unquote(key)], i))
+    }
+    lastContent = i
+  }
+  closeLast(table)
+  if (table !== root) table.end = lastContent
+  return root
+}
+
+// Children that share lines (minified or inline JSON) cannot be told apart by line ranges
+function sharesLines(node: DataNode) {
+  if (node.start === node.end) return true
+  return node.children.some((child, index) => index > 0 && child.start <= node.children[index - 1].end)
+}
+
+/**
+ * Emits a node whole when it fits the budget or its children share lines, leaving the line
+ * windows to the caller; otherwise groups consecutive children that fit together and recurses
+ * into the ones that do not. Groups of one child are named after it.
+ */
+function splitNode(
+  node: DataNode,
+  parentKeys: string[],
+  rangeTokens: (start: number, end: number) => number,
+  budget: number,
+  emit: (start: number, end: number, keys: string[]) => void,
+) {
+  const keys = [...parentKeys, ...node.keys]
+  if (node.children.length === 0 || rangeTokens(node.start, node.end) <= budget || sharesLines(node)) {
+    emit(node.start, node.end, keys)
+    return
+  }
+
+  let group: DataNode[] = []
+  let groupStart = node.start
+  // Header or closing lines with no child beside them are dropped; the children's key paths carry them
+  const flush = (end: number) => {
+    if (group.length > 0) emit(groupStart, end, group.length === 1 ? [...keys, ...group[0].keys] : keys)
+    group = []
+  }
+  for (const child of node.children) {
+    if (rangeTokens(child.start, child.end) > budget) {
+      flush(child.start - 1)
+      splitNode(child, keys, rangeTokens, budget, emit)
+      groupStart = child.end + 1
+      continue
+    }
+    if (group.length > 0 && rangeTokens(groupStart, child.end) > budget) {
+      flush(child.start - 1)
+      groupStart = child.start
+    }
+    group.push(child)
+  }
+  flush(node.end)
+}
+
+function chunkTree(filePath: string, lines: string[], root: DataNode, budget: number): Block[] {
+  const cumulative = [0]
+  for (const line of lines) cumulative.push(cumulative[cumulative.length - 1] + lineTokens(line))
+  const rangeTokens = (start: number, end: number) => cumulative[end + 1] - cumulative[start]
+
+  const blocks: Block[] = []
+  // Each line belongs to at most one block, even where node ranges touch
+  let emittedTo = -1
+  splitNode(root, [], rangeTokens, budget, (start, end, keys) => {
+    start = Math.max(start, emittedTo + 1)
+    if (start > end) return
+    emittedTo = end
+    while (end > start && !lines[end].trim()) end -= 1
+    const content = lines.slice(start, end + 1).join("\n")
+    // Lone closing brackets left between split siblings carry nothing worth embedding
+    if (!/[\p{L}\p{N}]/u.test(content)) return
+    const keyPath = keys.length > 0 ? keys.join(BREADCRUMB_SEPARATOR) : undefined
+    blocks.push({
+      path: filePath,
+      startLine: start + 1,
+      endLine: end + 1,
+      content,
+      symbol: keyPath,
+      symbolKind: keyPath ? "key" : undefined,
+      prefix: keyPath,
+    })
+  })
+  return blocks
+}
+
+function chunkRows(filePath: string, lines: string[], budget: number): Block[] {
+  const header = lines[0]
+  const rowBudget = Math.max(1, budget - lineTokens(header))
+  const blocks: Block[] = []
+  let start = 1
+  while (start < lines.length) {
+    let end = start
+    let used = lineTokens(lines[start])
+    while (end + 1 < lines.length && used + lineTokens(lines[end + 1]) <= rowBudget) {
+      end += 1
+      used += lineTokens(lines[end])
+    }
+    while (end > start && !lines[end].trim()) end -= 1
+    const content = lines.slice(start, end + 1).join("\n")
+    if (content.trim()) {
+      blocks.push({
+        path: filePath,
+        startLine: start + 1,
+        endLine: end + 1,
+        content,
+        symbol: `rows ${start + 1}-${end + 1}`,
+        symbolKind: "rows",
+        prefix: header,
+      })
+    }
+    start = end + 1
+    while (start < lines.length && !lines[start].trim()) start += 1
+  }
+  return blocks
+}
+
+/**
+ * Splits JSON, YAML, TOML and CSV/TSV files into blocks of at most `budget` tokens where the
+ * structure allows, or returns undefined for other files and unparseable JSON.
+ */
+export function chunkData(filePath: string, text: string, budget: number): Block[] | undefined {
+  const ext = path.extname(filePath).toLowerCase()
+  const lines = text.split("\n")
+  switch (ext) {
+    case ".json":
+    case ".jsonc": {
+      const root = parseJson(text, lines.length)
+      return root ? chunkTree(filePath, lines, root, budget) : undefined
+    }
+    case ".yaml":
+    case ".yml":
+      return chunkTree(filePath, lines, parseYaml(lines), budget)
+    case ".toml":
+      return chunkTree(filePath, lines, parseToml(lines), budget)
+    case ".csv":
+    case ".tsv":
+      return lines.length > 1 ? chunkRows(filePath, lines, budget) : undefined
+    default:
+      return undefined
+  }
+}
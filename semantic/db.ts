@@ -0,0 +1,150 @@
+/**
+ * SQLite storage for the semantic index.
+ * Owns the schema and keeps the FTS5 mirror of chunk text in sync via triggers.
+ */
+import * as path from "path"
+import { Database } from "bun:sqlite"
+
+const DB_FILENAME = "semantic.sqlite"
+
+// Bump when the table layout changes; getDb migrates older databases forward in place
+const SCHEMA_VERSION = 7
+// Indexes written before the meta table existed were always built with this model and chunker
+const LEGACY_MODEL_ID = "fastembed/AllMiniLML6V2"
+const LEGACY_CHUNKER_VERSION = 1
+
+export type IndexMeta = {
+  schema_version?: string
+  model_id?: string
+  dimension?: string
+  chunker_version?: string
+  // ISO timestamp of the last indexing pass
+  indexed_at?: string
+}
+
+// One connection per database per process, shared by the indexer and search
+const connections = new Map<string, Database>()
+
+export function getDbDir(worktree: string) {
+  return path.join(worktree, ".opencode", "chat")
+}
+
+export function getDbPath(worktree: string) {
+  return path.join(getDbDir(worktree), DB_FILENAME)
+}
+
+function hasTable(db: Database, name: string) {
+  return db.query("SELECT 1 FROM sqlite_master WHERE name = ?").get(name) !== null
+}
+
+// Upgrade tables created by older versions in place; new columns start out NULL
+function addMissingColumns(db: Database, table: string, columns: Record<string, string>) {
+  const existing = new Set((db.query(`PRAGMA table_info(${table})`).all() as Array<{ name: string }>).map((c) => c.name))
+  for (const [name, type] of Object.entries(columns)) {
+    if (!existing.has(name)) db.run(`ALTER TABLE ${table} ADD COLUMN ${name} ${type}`)
+  }
+}
+
+export function readMeta(db: Database) {
+  const rows = db.query("SELECT key, value FROM meta").all() as Array<{ key: string; value: string }>
+  return Object.fromEntries(rows.map((row) => [row.key, row.value])) as IndexMeta
+}
+
+export function writeMeta(db: Database, values: Partial<Record<keyof IndexMeta, string | number>>) {
+  const upsert = db.query("INSERT OR REPLACE INTO meta (key, value) VALUES (?, ?)")
+  for (const [key, value] of Object.entries(values)) {
+    if (value !== undefined) upsert.run(key, String(value))
+  }
+}
+
+/**
+ * Why vectors stored under `meta` cannot be used with the current model and chunker, or undefined
+ * when they can. Fields left out of `current` are not compared.
+ */
+export function getIndexMismatch(
+  meta: IndexMeta,
+  current: { modelId: string; dimension: number; chunkerVersion?: string },
+) {
+  if (meta.model_id && meta.model_id !== current.modelId) {
+    return `embedding model changed from ${meta.model_id} to ${current.modelId}`
+  }
+  if (meta.dimension && Number(meta.dimension) !== current.dimension) {
+    return `embedding dimension changed from ${meta.dimension} to ${current.dimension}`
+  }
+  if (current.chunkerVersion !== undefined && meta.chunker_version && meta.chunker_version !== current.chunkerVersion) {
+    return `chunker settings changed from ${meta.chunker_version} to ${current.chunkerVersion}`
+  }
+  return undefined
+}
+
+export function getDb(dbPath: string) {
+  const cached = connections.get(dbPath)
+  if (cached) return cached
+
+  const db = new Database(dbPath)
+  db.run("PRAGMA journal_mode = WAL")
+  db.run("PRAGMA synchronous = NORMAL")
+  db.run("CREATE TABLE IF NOT EXISTS meta (key TEXT PRIMARY KEY, value TEXT)")
+
+  const meta = readMeta(db)
+  const storedVersion = Number(meta.schema_version ?? 0)
+  if (storedVersion > SCHEMA_VERSION) {
+    db.close()
+    throw new Error(
+      `${dbPath} uses index schema v${storedVersion}, but this plugin only understands v${SCHEMA_VERSION}. Update the plugin or delete the file to rebuild.`,
+    )
+  }
+
+  db.run("CREATE TABLE IF NOT EXISTS files (path TEXT PRIMARY KEY, mtime INTEGER, size INTEGER, hash TEXT)")
+  addMissingColumns(db, "files", { size: "INTEGER", hash: "TEXT" })
+  // Files the indexer saw but refused, with why ("too-large" or "too-many-chunks"), for status reports
+  db.run("CREATE TABLE IF NOT EXISTS skipped_files (path TEXT PRIMARY KEY, reason TEXT NOT NULL)")
+  db.run(
+    "CREATE TABLE IF NOT EXISTS chunks (id INTEGER PRIMARY KEY, path TEXT, start_line INTEGER, end_line INTEGER, content TEXT, embedding BLOB, display_start INTEGER, display_end INTEGER, symbol TEXT, symbol_kind TEXT, content_hash TEXT)",
+  )
+  addMissingColumns(db, "chunks", {
+    display_start: "INTEGER",
+    display_end: "INTEGER",
+    symbol: "TEXT",
+    symbol_kind: "TEXT",
+    content_hash: "TEXT",
+  })
+  // Identical chunk text anywhere in the index reuses its embedding instead of calling the model
+  db.run("CREATE INDEX IF NOT EXISTS chunks_content_hash ON chunks (content_hash)")
+
+  // Query vectors by model, so repeated searches skip the model; used_at drives eviction
+  db.run(
+    "CREATE TABLE IF NOT EXISTS query_cache (model_id TEXT NOT NULL, query TEXT NOT NULL, embedding BLOB NOT NULL, used_at INTEGER NOT NULL, PRIMARY KEY (model_id, query))",
+  )
+
+  // External-content FTS table: text lives in chunks, triggers mirror inserts and deletes
+  const ftsExisted = hasTable(db, "chunks_fts")
+  db.run(
+    "CREATE VIRTUAL TABLE IF NOT EXISTS chunks_fts USING fts5(content, path, content='chunks', content_rowid='id', tokenize=\"unicode61 tokenchars '_'\")",
+  )
+  db.run(
+    "CREATE TRIGGER IF NOT EXISTS chunks_fts_insert AFTER INSERT ON chunks BEGIN INSERT INTO chunks_fts (rowid, content, path) VALUES (new.id, new.content, new.path); END",
+  )
+  db.run(
+    "CREATE TRIGGER IF NOT EXISTS chunks_fts_delete AFTER DELETE ON chunks BEGIN INSERT INTO chunks_fts (chunks_fts, rowid, content, path) VALUES ('delete', old.id, old.content, old.path); END",
+  )
+  // Indexes built before FTS existed need a one-time backfill
+  if (!ftsExisted) db.run("INSERT INTO chunks_fts (chunks_fts) VALUES ('rebuild')")
+
+  if (storedVersion < SCHEMA_VERSION) {
+    const hasChunks = db.query("SELECT 1 FROM chunks LIMIT 1").get() !== null
+    if (hasChunks && !meta.model_id) {
+      writeMeta(db, { model_id: LEGACY_MODEL_ID, chunker_version: LEGACY_CHUNKER_VERSION })
+    }
+    writeMeta(db, { schema_version: SCHEMA_VERSION })
+  }
+
+  connections.set(dbPath, db)
+  return db
+}
+
+/** Closes and forgets the cached connection so the files can be deleted or replaced. */
+export function closeDb(dbPath: string) {
+  connections.get(dbPath)?.close()
+  connections.delete(dbPath)
+}
@@ -1,35 +1,65 @@
 /**
- * Embedding model management and vector operations.
- * Handles model initialization and similarity scoring.
+ * Embedding provider selection and vector serialization.
+ * Every backend (fastembed, OpenAI-compatible HTTP, hashing) implements one interface,
+ * chosen by the "embedding" block of the semantic config.
  */
-import { EmbeddingModel, ExecutionProvider, FlagEmbedding } from "fastembed"
 import * as path from "path"
 import * as fs from "fs/promises"
+import { getDbDir } from "./db.js"
+import type { EmbeddingConfig } from "./config.js"
+import { createFastembedProvider } from "./providers/fastembed.js"
+import { createOpenAIProvider } from "./providers/openai.js"
+import { createHashProvider } from "./providers/hash.js"
 
 const MODEL_DIRNAME = "models"
-let embedder: FlagEmbedding | null = null
-
-export async function getEmbedder(cacheDir: string) {
-  if (embedder) return embedder
-  embedder = await FlagEmbedding.init({
-    model: EmbeddingModel.AllMiniLML6V2,
-    executionProviders: [ExecutionProvider.CPU],
-    cacheDir,
-    showDownloadProgress: true,
+
+export type EmbeddingProvider = {
+  // Stable identifier of the model that produced the vectors, e.g. "fastembed/AllMiniLML6V2"
+  modelId: string
+  dimension: number
+  // Tokens the model reads per input before truncating; chunks are sized to fit
+  maxTokens: number
+  embedPassages(texts: string[], batchSize: number): Promise<number[][]>
+  embedQuery(text: string): Promise<number[]>
+}
+
+// Cache the pending init so concurrent callers (background job, watcher, search) share one provider
+const providers = new Map<string, Promise<EmbeddingProvider>>()
+
+async function createEmbeddingProvider(worktree: string, config: EmbeddingConfig) {
+  if (config.provider === "fastembed") {
+    const cacheDir = getModelDir(getDbDir(worktree))
+    await fs.mkdir(cacheDir, { recursive: true })
+    return createFastembedProvider(config.model, cacheDir, config.maxTokens)
+  }
+  if (config.provider === "openai") {
+    const apiKey = config.apiKeyEnv ? process.env[config.apiKeyEnv] : undefined
+    return createOpenAIProvider({
+      url: config.url as string,
+      model: config.model,
+      dimension: config.dimension,
+      maxTokens: config.maxTokens,
+      apiKey,
+    })
+  }
+  return createHashProvider(config.dimension as number, config.maxTokens)
+}
+
+export async function getEmbedder(worktree: string, config: EmbeddingConfig) {
+  const key = `${worktree}\u0000${JSON.stringify(config)}`
+  const cached = providers.get(key)
+  if (cached) return cached
+  const pending = createEmbeddingProvider(worktree, config).catch((error) => {
+    providers.delete(key)
+    throw error
   })
-  return embedder
+  providers.set(key, pending)
+  return pending
 }
 
-export async function ensureModel(worktree: string) {
-  const cacheDir = path.join(worktree, ".opencode", "chat", MODEL_DIRNAME)
-  const modelPath = path.join(cacheDir, "fast-all-MiniLM-L6-v2", "model.onnx")
-  const exists = await fs
-    .stat(modelPath)
-    .then(() => true)
-    .catch(() => false)
-  if (exists) return
-  await fs.mkdir(cacheDir, { recursive: true })
-  await getEmbedder(cacheDir)
+/** Downloads or connects to the configured model up front so the first search does not pay for it. */
+export async function ensureModel(worktree: string, config: EmbeddingConfig) {
+  await getEmbedder(worktree, config)
 }
 
 export function encodeEmbedding(vec: number[]) {
@@ -40,19 +70,6 @@ export function decodeEmbedding(blob: Uint8Array) {
   return new Float32Array(blob.buffer, blob.byteOffset, blob.byteLength / 4)
 }
 
-export function cosineSimilarity(a: Float32Array, b: Float32Array) {
-  let dot = 0
-  let normA = 0
-  let normB = 0
-  for (let i = 0; i < a.length; i++) {
-    dot += a[i] * b[i]
-    normA += a[i] * a[i]
-    normB += b[i] * b[i]
-  }
-  if (normA === 0 || normB === 0) return 0
-  return dot / (Math.sqrt(normA) * Math.sqrt(normB))
-}
-
 export function getModelDir(dbDir: string) {
   return path.join(dbDir, MODEL_DIRNAME)
 }
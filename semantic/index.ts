@@ -4,236 +4,617 @@
  */
 import * as path from "path"
 import * as fs from "fs/promises"
-import { Database } from "bun:sqlite"
-import { chunkFile } from "./chunker.js"
-import { getEmbedder, encodeEmbedding, decodeEmbedding, cosineSimilarity, getModelDir } from "./embedder.js"
+import type { Database } from "bun:sqlite"
+import { chunkFile, chunkerSignature, type Chunk, type ChunkOptions } from "./chunker.js"
+import { getEmbedder, encodeEmbedding, decodeEmbedding, type EmbeddingProvider } from "./embedder.js"
+import { getDb, getDbDir, getDbPath, closeDb, readMeta, writeMeta, getIndexMismatch } from "./db.js"
+import { getLoadedVectorStore, dropVectorStore } from "./store.js"
+import { loadSemanticConfig, type SemanticConfig } from "./config.js"
+import { createIgnoreMatcher, walkFiles } from "../util/ignore.js"
 
 export { ensureModel } from "./embedder.js"
-
-const DB_FILENAME = "semantic.sqlite"
-const MAX_FILE_BYTES = 1024 * 1024
-const MAX_CHUNKS_PER_FILE = 200
-const EMBED_BATCH_SIZE = 16
-
-const TEXT_EXTENSIONS = new Set([
-  ".md",
-  ".mdx",
-  ".txt",
-  ".ts",
-  ".tsx",
-  ".js",
-  ".jsx",
-  ".json",
-  ".yml",
-  ".yaml",
-  ".toml",
-  ".py",
-  ".go",
-  ".rs",
-  ".java",
-  ".c",
-  ".cpp",
-  ".h",
-  ".hpp",
-  ".css",
-  ".html",
-  ".sh",
-  ".bash",
-  ".zsh",
-])
-
-const SKIP_DIRS = [".git", "node_modules", ".opencode", "dist", "build", "out", ".next", ".turbo", "coverage"]
-
-type IndexProgress = {
+export {
+  startBackgroundIndex,
+  stopBackgroundIndex,
+  getIndexJob,
+  describeIndexJob,
+  checkSemanticIndex,
+} from "./background.js"
+export {
+  semanticSearch,
+  similarSearch,
+  mergeHits,
+  type MergedHit,
+  type SearchFilters,
+  type SearchMode,
+  type SearchResult,
+} from "./search.js"
+export { localizeLines, type Focus } from "./localize.js"
+export { getIndexStatus, formatIndexStatus, type IndexStatus } from "./status.js"
+export { formatProgress } from "./progress.js"
+export { formatSearchResults, describeFilters, MERGE_FETCH_FACTOR } from "./results.js"
+export { exportSemanticIndex, importSemanticIndex } from "./portable.js"
+export { createIndexQueue } from "./watcher.js"
+export { loadSemanticConfig, type SemanticConfig } from "./config.js"
+
+const SLICE_PAUSE_MS = 50
+
+export type IndexProgress = {
   total: number
   processed: number
   indexed: number
   skipped: number
+  removed: number
   chunks: number
   currentPath?: string
+  // Chunks whose text was already embedded elsewhere, and embedding throughput of this run
+  reused: number
+  chunksPerSecond: number
+  // Set when stored vectors were incompatible and the index is being rebuilt from scratch
+  rebuildReason?: string
 }
 
 type IndexOptions = {
   mode?: "changed" | "full"
+  // Defaults to the worktree's .opencode/chat/config.json
+  config?: SemanticConfig
   onProgress?: (progress: IndexProgress) => void
-  maxTargets?: number
-  maxBytes?: number
+  // Pause after this many files so long runs share the event loop with the session
+  sliceSize?: number
+  signal?: AbortSignal
+  // Absolute directory; only files under it are collected, pruned, or cleared by a full run
+  scope?: string
 }
 
-function getDb(dbPath: string) {
-  const db = new Database(dbPath)
-  db.run("PRAGMA journal_mode = WAL")
-  db.run("PRAGMA synchronous = NORMAL")
-  db.run("CREATE TABLE IF NOT EXISTS files (path TEXT PRIMARY KEY, mtime INTEGER)")
-  db.run(
-    "CREATE TABLE IF NOT EXISTS chunks (id INTEGER PRIMARY KEY, path TEXT, start_line INTEGER, end_line INTEGER, content TEXT, embedding BLOB)",
-  )
-  return db
+type Target = { absPath: string; stat: { mtimeMs: number; size: number }; hash: string }
+
+export type SkipReason = "too-large" | "too-many-chunks"
+
+function isTextFile(filePath: string, config: SemanticConfig) {
+  const ext = path.extname(filePath).toLowerCase()
+  return ext ? config.extensions.includes(ext) : true
 }
 
-function isSkippedPath(filePath: string) {
-  const normalized = filePath.replace(/\\/g, "/")
-  return SKIP_DIRS.some((dir) => normalized.includes(`/${dir}/`))
+/** True for paths under a directory the indexer never descends into (e.g. node_modules, .opencode). */
+export function isSkippedPath(worktree: string, absPath: string, config: SemanticConfig) {
+  const relPath = path.relative(worktree, absPath)
+  if (relPath.startsWith("..") || path.isAbsolute(relPath)) return true
+  return relPath.split(path.sep).some((segment) => config.skipDirs.includes(segment))
 }
 
-function isTextFile(filePath: string) {
-  const ext = path.extname(filePath).toLowerCase()
-  return ext ? TEXT_EXTENSIONS.has(ext) : true
+export function hashContent(content: string | Uint8Array) {
+  return new Bun.CryptoHasher("sha1").update(content).digest("hex")
+}
+
+// Remembers why a file was refused so status reports can list it; no reason clears the record
+function recordSkip(db: Database, absPath: string, reason?: SkipReason) {
+  if (reason) db.query("INSERT OR REPLACE INTO skipped_files (path, reason) VALUES (?, ?)").run(absPath, reason)
+  else db.query("DELETE FROM skipped_files WHERE path = ?").run(absPath)
+}
+
+// Too-large is decided on every read; too-many-chunks stands until the file is chunked again or forgotten
+function clearSkip(db: Database, absPath: string, reason: SkipReason) {
+  db.query("DELETE FROM skipped_files WHERE path = ? AND reason = ?").run(absPath, reason)
+}
+
+// Stats and hashes a text file, or returns undefined when it is missing or too large to index
+async function readTarget(db: Database, absPath: string, config: SemanticConfig): Promise<Target | undefined> {
+  if (!isTextFile(absPath, config)) return undefined
+  const stat = await fs.stat(absPath).catch(() => undefined)
+  if (!stat?.isFile()) return undefined
+  if (stat.size > config.maxFileBytes) {
+    recordSkip(db, absPath, "too-large")
+    return undefined
+  }
+  return { absPath, stat, hash: hashContent(await Bun.file(absPath).bytes()) }
+}
+
+/** Chunk sizing for a model: windows fill its sequence limit, overlap comes from the config. */
+export function getChunkOptions(model: EmbeddingProvider, config: SemanticConfig): ChunkOptions {
+  return { maxTokens: model.maxTokens, overlapTokens: config.chunkOverlapTokens }
+}
+
+// Stored vectors are only comparable if the same model and chunker settings produced all of them
+function checkIndexMeta(db: Database, model: EmbeddingProvider, config: SemanticConfig) {
+  return getIndexMismatch(readMeta(db), {
+    modelId: model.modelId,
+    dimension: model.dimension,
+    chunkerVersion: chunkerSignature(getChunkOptions(model, config)),
+  })
+}
+
+function stampIndexMeta(db: Database, model: EmbeddingProvider, config: SemanticConfig) {
+  writeMeta(db, {
+    model_id: model.modelId,
+    dimension: model.dimension,
+    chunker_version: chunkerSignature(getChunkOptions(model, config)),
+  })
+}
+
+function forgetFile(db: Database, dbPath: string, absPath: string) {
+  db.query("DELETE FROM chunks WHERE path = ?").run(absPath)
+  db.query("DELETE FROM files WHERE path = ?").run(absPath)
+  clearSkip(db, absPath, "too-many-chunks")
+  getLoadedVectorStore(dbPath)?.removePath(absPath)
+}
+
+/**
+ * Runs `fn` in one transaction. A throw rolls it back, and the loaded vector store, which may
+ * already hold part of the change, is dropped so the next search reloads from the database.
+ */
+function writeTransaction<T>(db: Database, dbPath: string, fn: () => T): T {
+  try {
+    return db.transaction(fn)()
+  } catch (error) {
+    dropVectorStore(dbPath)
+    throw error
+  }
+}
+
+// Indexing passes per database, chained so the startup scan, edit hooks and tool calls run one at a
+// time: a scan never prunes a file a hook just added or stores chunks older than the hook's
+const passes = new Map<string, Promise<unknown>>()
+
+function runExclusive<T>(dbPath: string, pass: () => Promise<T>): Promise<T> {
+  const next = (passes.get(dbPath) ?? Promise.resolve()).catch(() => undefined).then(pass)
+  passes.set(dbPath, next)
+  next
+    .finally(() => {
+      if (passes.get(dbPath) === next) passes.delete(dbPath)
+    })
+    .catch(() => undefined)
+  return next
 }
 
-async function collectTargets(worktree: string, mode: "changed" | "full", filesQuery: ReturnType<Database["prepare"]>) {
-  const glob = new Bun.Glob("**/*")
-  const targets: Array<{ absPath: string; stat: { mtimeMs: number; size: number } }> = []
+function isInScope(scope: string | undefined, absPath: string) {
+  return !scope || absPath === scope || absPath.startsWith(scope + path.sep)
+}
+
+async function collectTargets(
+  worktree: string,
+  mode: "changed" | "full",
+  db: Database,
+  config: SemanticConfig,
+  scope?: string,
+  signal?: AbortSignal,
+) {
+  const matcher = createIgnoreMatcher(worktree)
+  const filesQuery = db.prepare("SELECT mtime, size, hash FROM files WHERE path = ?")
+  const touchFile = db.prepare("UPDATE files SET mtime = ?, size = ?, hash = ? WHERE path = ?")
+  const targets: Target[] = []
   const skipped: string[] = []
-  let totalBytes = 0
+  const seen = new Set<string>()
+
+  const startDir = scope ? path.relative(worktree, scope).split(path.sep).join("/") : ""
+  // Size refusals are rebuilt by every scan, which also drops those of deleted files
+  const skipRows = db.query("SELECT path FROM skipped_files WHERE reason = 'too-large'").all() as Array<{ path: string }>
+  for (const row of skipRows) if (isInScope(scope, row.path)) clearSkip(db, row.path, "too-large")
+
+  // A file scope is indexed on its own; walking it would find nothing and prune it
+  const scopeIsFile = scope ? Boolean((await fs.stat(scope).catch(() => undefined))?.isFile()) : false
+  if (scope && (isSkippedPath(worktree, scope, config) || (await matcher.isIgnored(scope, !scopeIsFile)))) {
+    return { targets, skipped, seen, complete: true }
+  }
 
-  for await (const relPath of glob.scan({ cwd: worktree, absolute: false, onlyFiles: true, followSymlinks: false })) {
-    if (isSkippedPath(`/${relPath}`)) continue
-    const absPath = path.join(worktree, relPath)
-    if (!isTextFile(absPath)) continue
+  const relPaths = scopeIsFile ? [startDir] : walkFiles(worktree, matcher, config.skipDirs, startDir, signal)
+  for await (const relPath of relPaths) {
+    if (signal?.aborted) break
+    const target = await readTarget(db, path.join(worktree, relPath), config)
+    if (!target) continue
+    const { absPath, stat, hash } = target
+    seen.add(absPath)
 
-    const stat = await fs.stat(absPath)
-    if (stat.size > MAX_FILE_BYTES) continue
+    // Content decides what is stale: touch/checkout/rsync keep hashes, mtime-preserving edits change them
+    const mtime = Math.floor(stat.mtimeMs)
 
     if (mode === "changed") {
-      const existing = filesQuery.get(absPath) as { mtime: number } | undefined
-      if (existing && existing.mtime === Math.floor(stat.mtimeMs)) {
+      const existing = filesQuery.get(absPath) as { mtime: number; size: number | null; hash: string | null } | null
+      // Rows from before hashing was introduced adopt the current hash if their mtime still matches
+      const unchanged = existing && (existing.hash ? existing.hash === hash : existing.mtime === mtime)
+      if (unchanged) {
+        if (existing.hash !== hash || existing.mtime !== mtime || existing.size !== stat.size) {
+          touchFile.run(mtime, stat.size, hash, absPath)
+        }
         skipped.push(absPath)
         continue
       }
     }
 
-    targets.push({ absPath, stat })
-    totalBytes += stat.size
+    targets.push(target)
   }
 
-  return { targets, skipped, totalBytes }
+  // A partial walk has not seen every indexed file, so it must not be used to prune
+  return { targets, skipped, seen, complete: !signal?.aborted }
 }
 
-export async function ensureSemanticIndex(worktree: string, options: IndexOptions = {}) {
-  const dbDir = path.join(worktree, ".opencode", "chat")
-  await fs.mkdir(dbDir, { recursive: true })
-  const db = getDb(path.join(dbDir, DB_FILENAME))
+// Drop rows for files that were deleted, renamed, or are no longer indexable
+function pruneRemoved(db: Database, dbPath: string, seen: Set<string>, scope?: string) {
+  const rows = db.query("SELECT path FROM files").all() as Array<{ path: string }>
+  const removed = rows
+    .map((row) => row.path)
+    .filter((filePath) => isInScope(scope, filePath) && !seen.has(filePath))
+
+  const orphans = writeTransaction(db, dbPath, () => {
+    for (const filePath of removed) forgetFile(db, dbPath, filePath)
+    db.run("DELETE FROM skipped_files WHERE reason = 'too-many-chunks' AND path NOT IN (SELECT path FROM files)")
+    return db.run("DELETE FROM chunks WHERE path NOT IN (SELECT path FROM files)")
+  })
+
+  // Orphans are not tracked by path in memory; let the next search reload
+  if (orphans.changes > 0) dropVectorStore(dbPath)
 
-  const mode = options.mode ?? "changed"
+  return removed.length
+}
+
+export type PreparedFile = {
+  target: Target
+  chunks: Chunk[]
+  hashes: string[]
+  // Encoded vector per chunk, taken from identical stored text or filled in by the model
+  embeddings: Array<Uint8Array | undefined>
+}
 
-  const filesQuery = db.prepare("SELECT mtime FROM files WHERE path = ?")
-  const upsertFile = db.prepare("INSERT OR REPLACE INTO files (path, mtime) VALUES (?, ?)")
-  const deleteChunks = db.prepare("DELETE FROM chunks WHERE path = ?")
-  const insertChunk = db.prepare(
-    "INSERT INTO chunks (path, start_line, end_line, content, embedding) VALUES (?, ?, ?, ?, ?)",
+// Reads and chunks one file, reusing stored vectors for chunk text the index already has; undefined when not indexable
+async function prepareTarget(
+  db: Database,
+  dbPath: string,
+  target: Target,
+  options: ChunkOptions,
+  config: SemanticConfig,
+): Promise<PreparedFile | undefined> {
+  const text = await Bun.file(target.absPath).text()
+  const chunks = !text.trim() || text.includes("\u0000") ? [] : chunkFile(target.absPath, text, options)
+
+  if (chunks.length === 0 || chunks.length > config.maxChunksPerFile) {
+    // Stored with its hash and no chunks, so unchanged scans skip the file instead of reading it again
+    storeFile(db, dbPath, { target, chunks: [], hashes: [], embeddings: [] })
+    if (chunks.length > 0) recordSkip(db, target.absPath, "too-many-chunks")
+    return undefined
+  }
+
+  const findEmbedding = db.query("SELECT embedding FROM chunks WHERE content_hash = ? LIMIT 1")
+  const hashes = chunks.map((chunk) => hashContent(chunk.content))
+  const embeddings = hashes.map((hash) => (findEmbedding.get(hash) as { embedding: Uint8Array } | null)?.embedding)
+  return { target, chunks, hashes, embeddings }
+}
+
+// Replaces a file's chunks in one transaction, so an aborted run resumes where it stopped
+export function storeFile(db: Database, dbPath: string, file: PreparedFile) {
+  const store = getLoadedVectorStore(dbPath)
+  const { target, chunks } = file
+  const insertChunk = db.query(
+    `INSERT INTO chunks (path, start_line, end_line, content, embedding, display_start, display_end, symbol, symbol_kind, content_hash)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
   )
 
-  if (mode === "full") {
-    db.run("DELETE FROM chunks")
-    db.run("DELETE FROM files")
+  writeTransaction(db, dbPath, () => {
+    db.query("DELETE FROM chunks WHERE path = ?").run(target.absPath)
+    store?.removePath(target.absPath)
+    for (let i = 0; i < chunks.length; i++) {
+      const chunk = chunks[i]
+      const embedding = file.embeddings[i] as Uint8Array
+      const { lastInsertRowid } = insertChunk.run(
+        chunk.path,
+        chunk.startLine,
+        chunk.endLine,
+        chunk.content,
+        embedding,
+        chunk.displayStart,
+        chunk.displayEnd,
+        chunk.symbol ?? null,
+        chunk.symbolKind ?? null,
+        file.hashes[i],
+      )
+      store?.add(Number(lastInsertRowid), chunk.path, decodeEmbedding(embedding))
+    }
+    db.query("INSERT OR REPLACE INTO files (path, mtime, size, hash) VALUES (?, ?, ?, ?)").run(
+      target.absPath,
+      Math.floor(target.stat.mtimeMs),
+      target.stat.size,
+      target.hash,
+    )
+    recordSkip(db, target.absPath)
+  })
+}
+
+/**
+ * Collects chunks from many files into full model batches and stores each file once all its chunks
+ * have vectors. Text already queued or stored is embedded once, and the next file is read and
+ * chunked while the current batch is with the model.
+ */
+function createIndexWriter(
+  db: Database,
+  dbPath: string,
+  model: EmbeddingProvider,
+  config: SemanticConfig,
+  onStored: (file: PreparedFile) => void,
+) {
+  let pending: PreparedFile[] = []
+  const queue: Array<{ hash: string; content: string }> = []
+  // Chunks waiting for a queued or in-flight hash, so duplicates share one model call
+  const waiting = new Map<string, Array<{ file: PreparedFile; index: number }>>()
+  let inFlight: Promise<void> | undefined
+  let reused = 0
+
+  const storeReady = () => {
+    const ready = pending.filter((file) => file.embeddings.every(Boolean))
+    if (ready.length === 0) return
+    pending = pending.filter((file) => !ready.includes(file))
+    for (const file of ready) {
+      storeFile(db, dbPath, file)
+      onStored(file)
+    }
+  }
+
+  const embedBatch = async (batch: typeof queue) => {
+    const vectors = await model.embedPassages(
+      batch.map((item) => item.content),
+      batch.length,
+    )
+    batch.forEach((item, i) => {
+      const encoded = encodeEmbedding(vectors[i])
+      for (const slot of waiting.get(item.hash) ?? []) slot.file.embeddings[slot.index] = encoded
+      waiting.delete(item.hash)
+    })
+    storeReady()
+  }
+
+  const drain = async (all: boolean) => {
+    while (queue.length >= config.embedBatchSize || (all && queue.length > 0)) {
+      await inFlight
+      const running = embedBatch(queue.splice(0, config.embedBatchSize))
+      // Awaited before the next batch or on flush; this only keeps an early failure from going unhandled
+      running.catch(() => undefined)
+      inFlight = running
+    }
   }
 
-  const { targets, skipped, totalBytes } = await collectTargets(worktree, mode, filesQuery)
+  return {
+    async add(file: PreparedFile) {
+      pending.push(file)
+      file.embeddings.forEach((embedding, index) => {
+        if (embedding) {
+          reused += 1
+          return
+        }
+        const hash = file.hashes[index]
+        const slots = waiting.get(hash)
+        if (slots) {
+          slots.push({ file, index })
+          reused += 1
+          return
+        }
+        waiting.set(hash, [{ file, index }])
+        queue.push({ hash, content: file.chunks[index].content })
+      })
+      storeReady()
+      await drain(false)
+    },
+    async flush() {
+      await drain(true)
+      await inFlight
+      storeReady()
+    },
+    get reused() {
+      return reused
+    },
+  }
+}
+
+export function ensureSemanticIndex(worktree: string, options: IndexOptions = {}) {
+  return runExclusive(getDbPath(worktree), () => indexTree(worktree, options))
+}
 
+// Settles with undefined once `signal` aborts; the work itself carries on, e.g. so the next call finds the model loaded
+function unlessAborted<T>(work: Promise<T>, signal?: AbortSignal) {
+  if (!signal) return work
+  if (signal.aborted) return Promise.resolve(undefined)
+  return new Promise<T | undefined>((resolve, reject) => {
+    const onAbort = () => resolve(undefined)
+    signal.addEventListener("abort", onAbort, { once: true })
+    work.then(
+      (value) => {
+        signal.removeEventListener("abort", onAbort)
+        resolve(value)
+      },
+      (error) => {
+        signal.removeEventListener("abort", onAbort)
+        reject(error)
+      },
+    )
+  })
+}
+
+async function indexTree(worktree: string, options: IndexOptions) {
+  const dbDir = getDbDir(worktree)
+  await fs.mkdir(dbDir, { recursive: true })
+  const dbPath = getDbPath(worktree)
+  const db = getDb(dbPath)
+  const config = options.config ?? (await loadSemanticConfig(worktree))
+
+  let mode = options.mode ?? "changed"
+  let rebuildReason: string | undefined
+  // Set when the signal aborted before the embedding loop, in the same phases the background job reports
+  let interrupted: "model" | "scanning" | undefined
+  let targets: Target[] = []
+  let skipped: string[] = []
+  let writer: ReturnType<typeof createIndexWriter> | undefined
+  let removed = 0
   let processed = 0
   let indexed = 0
   let chunksTotal = 0
+  let startedAt = performance.now()
 
-  const report = (currentPath?: string) => {
-    options.onProgress?.({
+  const progress = (currentPath?: string): IndexProgress => {
+    const seconds = (performance.now() - startedAt) / 1000
+    return {
       total: targets.length,
       processed,
       indexed,
       skipped: skipped.length,
+      removed,
       chunks: chunksTotal,
+      reused: writer?.reused ?? 0,
+      chunksPerSecond: seconds > 0 ? chunksTotal / seconds : 0,
       currentPath,
-    })
+      rebuildReason,
+    }
   }
+  const report = (currentPath?: string) => options.onProgress?.(progress(currentPath))
+  const result = () => ({ ...progress(), remaining: targets.length - processed, mode, interrupted })
 
-  if (targets.length === 0) {
-    report()
-    return { total: 0, processed: 0, indexed: 0, skipped: skipped.length, chunks: 0, mode }
+  const model = await unlessAborted(getEmbedder(worktree, config.embedding), options.signal)
+  if (!model) {
+    interrupted = "model"
+    return result()
   }
 
-  if (typeof options.maxTargets === "number" && targets.length > options.maxTargets) {
-    report("skip:too-many-files")
-    return {
-      total: targets.length,
-      processed: 0,
-      indexed: 0,
-      skipped: skipped.length,
-      chunks: 0,
-      mode,
-      skippedReason: "too-many-files",
-    }
-  }
+  // Incompatible vectors cannot be patched file by file; start over instead of mixing them
+  rebuildReason = checkIndexMeta(db, model, config)
+  if (rebuildReason) mode = "full"
+  const scope = options.scope && path.resolve(options.scope) !== path.resolve(worktree) ? path.resolve(options.scope) : undefined
 
-  if (typeof options.maxBytes === "number" && totalBytes > options.maxBytes) {
-    report("skip:too-large")
-    return {
-      total: targets.length,
-      processed: 0,
-      indexed: 0,
-      skipped: skipped.length,
-      chunks: 0,
-      mode,
-      skippedReason: "too-large",
-    }
+  if (mode === "full" && (rebuildReason || !scope)) {
+    db.run("DELETE FROM chunks")
+    db.run("DELETE FROM files")
+    getLoadedVectorStore(dbPath)?.clear()
+  } else if (mode === "full") {
+    const rows = db.query("SELECT path FROM files").all() as Array<{ path: string }>
+    writeTransaction(db, dbPath, () => {
+      for (const row of rows) if (isInScope(scope, row.path)) forgetFile(db, dbPath, row.path)
+    })
   }
+  stampIndexMeta(db, model, config)
+
+  const scan = await collectTargets(worktree, mode, db, config, scope, options.signal)
+  targets = scan.targets
+  skipped = scan.skipped
+  if (!scan.complete) interrupted = "scanning"
+
+  writer = createIndexWriter(db, dbPath, model, config, (file) => {
+    processed += 1
+    indexed += 1
+    chunksTotal += file.chunks.length
+    report(file.target.absPath)
+  })
 
-  const model = await getEmbedder(getModelDir(dbDir))
   report()
+  startedAt = performance.now()
+  const chunkOptions = getChunkOptions(model, config)
+  let prepared = 0
 
   for (const target of targets) {
+    if (options.signal?.aborted) break
+    if (options.sliceSize && prepared > 0 && prepared % options.sliceSize === 0) {
+      await Bun.sleep(SLICE_PAUSE_MS)
+    }
+    prepared += 1
     report(target.absPath)
-    const text = await Bun.file(target.absPath).text()
-    processed += 1
-
-    if (!text.trim() || text.includes("\u0000")) continue
+    const file = await prepareTarget(db, dbPath, target, chunkOptions, config)
+    if (file) await writer.add(file)
+    else processed += 1
+  }
+  // Files already read are finished even after an abort; the batch holding them is at most one call away
+  await writer.flush()
+  // Pruned only after new files are stored, so a renamed file still finds its old vectors by content hash
+  if (mode === "changed" && scan.complete) removed = pruneRemoved(db, dbPath, scan.seen, scope)
+  writeMeta(db, { indexed_at: new Date().toISOString() })
 
-    const chunks = chunkFile(target.absPath, text)
-    if (chunks.length === 0 || chunks.length > MAX_CHUNKS_PER_FILE) continue
+  return result()
+}
 
-    deleteChunks.run(target.absPath)
+/** Re-indexes specific files (e.g. after an edit), dropping any that were deleted or became ineligible. */
+export function indexPaths(worktree: string, absPaths: string[], config?: SemanticConfig) {
+  return runExclusive(getDbPath(worktree), () => indexFiles(worktree, absPaths, config))
+}
 
-    const embeddings: number[][] = []
-    for await (const batch of model.passageEmbed(
-      chunks.map((c) => c.content),
-      EMBED_BATCH_SIZE,
-    )) {
-      embeddings.push(...batch)
+async function indexFiles(worktree: string, absPaths: string[], config?: SemanticConfig) {
+  const resolved = config ?? (await loadSemanticConfig(worktree))
+  await fs.mkdir(getDbDir(worktree), { recursive: true })
+  const dbPath = getDbPath(worktree)
+  const db = getDb(dbPath)
+  const matcher = createIgnoreMatcher(worktree)
+  const hashQuery = db.query("SELECT hash FROM files WHERE path = ?")
+  let writer: ReturnType<typeof createIndexWriter> | undefined
+  let chunkOptions: ChunkOptions | undefined
+  let indexed = 0
+  let removed = 0
+  let chunks = 0
+
+  for (const absPath of new Set(absPaths)) {
+    const eligible = !isSkippedPath(worktree, absPath, resolved) && !(await matcher.isIgnored(absPath))
+    clearSkip(db, absPath, "too-large")
+    const target = eligible ? await readTarget(db, absPath, resolved) : undefined
+    const existing = hashQuery.get(absPath) as { hash: string | null } | null
+
+    if (!target) {
+      if (existing) {
+        forgetFile(db, dbPath, absPath)
+        removed += 1
+      }
+      continue
     }
-
-    db.run("BEGIN")
-    for (let i = 0; i < chunks.length; i++) {
-      const chunk = chunks[i]
-      insertChunk.run(chunk.path, chunk.startLine, chunk.endLine, chunk.content, encodeEmbedding(embeddings[i]))
+    if (existing?.hash === target.hash) continue
+
+    if (!writer || !chunkOptions) {
+      const model = await getEmbedder(worktree, resolved.embedding)
+      // Leave incompatible indexes alone; the startup job rebuilds them
+      if (checkIndexMeta(db, model, resolved)) break
+      stampIndexMeta(db, model, resolved)
+      chunkOptions = getChunkOptions(model, resolved)
+      writer = createIndexWriter(db, dbPath, model, resolved, (file) => {
+        indexed += 1
+        chunks += file.chunks.length
+      })
     }
-    upsertFile.run(target.absPath, Math.floor(target.stat.mtimeMs))
-    db.run("COMMIT")
-
-    indexed += 1
-    chunksTotal += chunks.length
-    report(target.absPath)
+    const file = await prepareTarget(db, dbPath, target, chunkOptions, resolved)
+    if (file) await writer.add(file)
   }
+  await writer?.flush()
+  if (indexed > 0 || removed > 0) writeMeta(db, { indexed_at: new Date().toISOString() })
 
-  return { total: targets.length, processed, indexed, skipped: skipped.length, chunks: chunksTotal, mode }
+  return { indexed, removed, chunks }
 }
 
-export async function semanticSearch(worktree: string, query: string, limit: number) {
-  const dbDir = path.join(worktree, ".opencode", "chat")
-  const db = getDb(path.join(dbDir, DB_FILENAME))
-  const model = await getEmbedder(getModelDir(dbDir))
-
-  const queryVec = new Float32Array(await model.queryEmbed(query))
-
-  const rows = db.query("SELECT path, start_line, end_line, content, embedding FROM chunks").all() as Array<{
-    path: string
-    start_line: number
-    end_line: number
-    content: string
-    embedding: Uint8Array
-  }>
+/** Drops rows for deleted or no-longer-indexable files without embedding anything. */
+export async function pruneSemanticIndex(worktree: string, config?: SemanticConfig) {
+  const dbPath = getDbPath(worktree)
+  const resolved = config ?? (await loadSemanticConfig(worktree))
+  return runExclusive(dbPath, async () => {
+    const db = getDb(dbPath)
+    const { seen } = await collectTargets(worktree, "changed", db, resolved)
+    return { removed: pruneRemoved(db, dbPath, seen) }
+  })
+}
 
-  const scored = rows
-    .map((row) => ({ ...row, score: cosineSimilarity(queryVec, decodeEmbedding(row.embedding)) }))
-    .sort((a, b) => b.score - a.score)
+/** Merges FTS segments and compacts the database file, returning its size before and after. */
+export async function vacuumSemanticIndex(worktree: string) {
+  const dbPath = getDbPath(worktree)
+  const db = getDb(dbPath)
+  const size = async () => {
+    let bytes = 0
+    for (const suffix of ["", "-wal"]) bytes += (await fs.stat(dbPath + suffix).catch(() => undefined))?.size ?? 0
+    return bytes
+  }
+  const before = await size()
+  db.run("INSERT INTO chunks_fts (chunks_fts) VALUES ('optimize')")
+  db.run("VACUUM")
+  db.run("PRAGMA wal_checkpoint(TRUNCATE)")
+  return { before, after: await size() }
+}
 
-  return scored.slice(0, limit)
+/** Deletes the index database; the next indexing pass starts from nothing. */
+export async function resetSemanticIndex(worktree: string) {
+  const dbPath = getDbPath(worktree)
+  closeDb(dbPath)
+  dropVectorStore(dbPath)
+  let removed = false
+  for (const suffix of ["", "-wal", "-shm"]) {
+    removed =
+      (await fs
+        .rm(dbPath + suffix)
+        .then(() => true)
+        .catch(() => false)) || removed
+  }
+  return { removed }
 }
@@ -0,0 +1,118 @@
+/**
+ * Line-level localization of a query inside a ranked hit.
+ * Slides a small window over the hit's lines and picks the one covering the most query terms,
+ * falling back to embedding the windows when the match is purely semantic.
+ */
+import type { EmbeddingProvider } from "./embedder.js"
+import { embedQueryCached } from "./query-cache.js"
+
+const FOCUS_LINES = 8
+const MAX_EMBED_WINDOWS = 32
+// Question words would otherwise pin the focus to whichever line happens to contain them
+const STOPWORDS = new Set([
+  ...["an", "and", "are", "be", "by", "do", "does", "for", "how", "in", "is", "it"],
+  ...["of", "on", "or", "that", "the", "this", "to", "what", "where", "with"],
+])
+
+export type Focus = {
+  start_line: number
+  end_line: number
+  // Query terms found inside the focus range, for highlighting
+  terms: string[]
+}
+
+export function queryTerms(query: string) {
+  const terms = query.toLowerCase().match(/[\p{L}\p{N}_]{2,}/gu) ?? []
+  return [...new Set(terms)].filter((term) => !STOPWORDS.has(term))
+}
+
+// Half-overlapping windows, spread wider when a cap on the window count applies
+function windowStarts(lineCount: number, maxWindows = Infinity) {
+  const starts: number[] = []
+  const stride = Math.max(FOCUS_LINES >> 1, Math.ceil((lineCount - FOCUS_LINES) / maxWindows))
+  for (let start = 0; start + FOCUS_LINES < lineCount; start += stride) starts.push(start)
+  starts.push(Math.max(0, lineCount - FOCUS_LINES))
+  return starts
+}
+
+function cosine(a: ArrayLike<number>, b: ArrayLike<number>) {
+  let dot = 0
+  let normA = 0
+  let normB = 0
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i]
+    normA += a[i] * a[i]
+    normB += b[i] * b[i]
+  }
+  return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB)
+}
+
+// Terms rare within the hit say more about where the answer is than ones on every line
+function lexicalFocus(lines: string[], terms: string[]) {
+  const lower = lines.map((line) => line.toLowerCase())
+  const weights = new Map<string, number>()
+  for (const term of terms) {
+    const df = lower.filter((line) => line.includes(term)).length
+    if (df > 0) weights.set(term, Math.log(1 + lines.length / df))
+  }
+  if (weights.size === 0) return undefined
+
+  let best: { start: number; end: number; score: number } | undefined
+  for (const start of windowStarts(lines.length)) {
+    const end = Math.min(lines.length, start + FOCUS_LINES)
+    const covered = new Set<string>()
+    let first = -1
+    let last = -1
+    for (let i = start; i < end; i++) {
+      let hit = false
+      for (const term of weights.keys()) {
+        if (!lower[i].includes(term)) continue
+        covered.add(term)
+        hit = true
+      }
+      if (!hit) continue
+      if (first === -1) first = i
+      last = i
+    }
+    let score = 0
+    for (const term of covered) score += weights.get(term) as number
+    if (!best || score > best.score) best = { start: first, end: last, score }
+  }
+  return best && best.score > 0 ? best : undefined
+}
+
+async function semanticFocus(lines: string[], query: string, model: EmbeddingProvider) {
+  const starts = windowStarts(lines.length, MAX_EMBED_WINDOWS)
+  const windows = starts.map((start) => lines.slice(start, start + FOCUS_LINES).join("\n"))
+  const [queryVec, windowVecs] = await Promise.all([embedQueryCached(model, query), model.embedPassages(windows, windows.length)])
+  let best = 0
+  let bestScore = -Infinity
+  windowVecs.forEach((vec, index) => {
+    const score = cosine(queryVec, vec)
+    if (score > bestScore) {
+      best = index
+      bestScore = score
+    }
+  })
+  return { start: starts[best], end: Math.min(lines.length, starts[best] + FOCUS_LINES) - 1 }
+}
+
+/**
+ * Narrows `lines`, which start at `startLine`, to the few that best answer `query`.
+ * Returns undefined for ranges already small enough to read whole.
+ */
+export async function localizeLines(lines: string[], startLine: number, query: string, model?: EmbeddingProvider) {
+  if (lines.length <= FOCUS_LINES) return undefined
+
+  const terms = queryTerms(query)
+  let range: { start: number; end: number } | undefined = lexicalFocus(lines, terms)
+  if (!range && model) range = await semanticFocus(lines, query, model)
+  if (!range) return undefined
+
+  const focused = lines.slice(range.start, range.end + 1).join("\n").toLowerCase()
+  return {
+    start_line: startLine + range.start,
+    end_line: startLine + range.end,
+    terms: terms.filter((term) => focused.includes(term)),
+  } satisfies Focus
+}
@@ -0,0 +1,215 @@
+/**
+ * Portable export and import of the semantic index.
+ * Writes gzipped JSONL with worktree-relative paths and content hashes so one machine (e.g. CI)
+ * can build the index and others adopt every chunk whose source file is byte-identical locally.
+ */
+import * as fs from "fs"
+import * as path from "path"
+import * as readline from "readline"
+import * as zlib from "zlib"
+import { once } from "events"
+import { getDb, getDbDir, getDbPath, readMeta, writeMeta, getIndexMismatch } from "./db.js"
+import { getEmbedder } from "./embedder.js"
+import { dropVectorStore } from "./store.js"
+import { hashContent, getChunkOptions, storeFile } from "./index.js"
+import { chunkerSignature } from "./chunker.js"
+import type { SemanticConfig } from "./config.js"
+
+const EXPORT_FORMAT = "opencode-chat-index"
+const EXPORT_VERSION = 3
+
+type ExportHeader = {
+  format: typeof EXPORT_FORMAT
+  version: number
+  model_id: string
+  dimension: number
+  chunker_version: string
+  exported_at: string
+}
+
+type ExportedFile = {
+  path: string
+  hash: string
+  chunks: Array<{
+    start_line: number
+    end_line: number
+    display_start: number
+    display_end: number
+    symbol: string | null
+    symbol_kind: string | null
+    content: string
+    embedding: string
+  }>
+}
+
+async function writeLine(stream: zlib.Gzip, value: unknown) {
+  if (!stream.write(JSON.stringify(value) + "\n")) await once(stream, "drain")
+}
+
+/** Streams every hashed file and its chunks to `outPath`; returns how many were written. */
+export async function exportSemanticIndex(worktree: string, outPath: string) {
+  const db = getDb(getDbPath(worktree))
+  const meta = readMeta(db)
+  if (!meta.model_id || !meta.dimension || !meta.chunker_version) {
+    throw new Error("Semantic index has no model metadata yet; run the indexer before exporting")
+  }
+
+  // Opened up front so a missing directory or permission problem is an error here, not an unhandled stream event
+  const handle = await fs.promises.open(outPath, "w").catch((error: Error) => {
+    throw new Error(`Cannot write ${outPath}: ${error.message}`)
+  })
+  const gzip = zlib.createGzip()
+  const output = handle.createWriteStream()
+  gzip.pipe(output)
+  const header: ExportHeader = {
+    format: EXPORT_FORMAT,
+    version: EXPORT_VERSION,
+    model_id: meta.model_id,
+    dimension: Number(meta.dimension),
+    chunker_version: meta.chunker_version,
+    exported_at: new Date().toISOString(),
+  }
+  await writeLine(gzip, header)
+
+  // One ordered pass instead of a lookup per file; chunks.path has no index
+  const rows = db
+    .query(
+      `SELECT chunks.path AS path, files.hash AS hash, start_line, end_line, display_start, display_end,
+         symbol, symbol_kind, content, embedding
+       FROM chunks JOIN files ON files.path = chunks.path
+       WHERE files.hash IS NOT NULL
+       ORDER BY chunks.path, start_line`,
+    )
+    .iterate() as Iterable<{
+    path: string
+    hash: string
+    start_line: number
+    end_line: number
+    display_start: number | null
+    display_end: number | null
+    symbol: string | null
+    symbol_kind: string | null
+    content: string
+    embedding: Uint8Array
+  }>
+
+  let files = 0
+  let chunks = 0
+  let current: ExportedFile | undefined
+  let currentPath = ""
+  for (const row of rows) {
+    if (row.path !== currentPath) {
+      if (current) await writeLine(gzip, current)
+      currentPath = row.path
+      current = { path: path.relative(worktree, row.path).split(path.sep).join("/"), hash: row.hash, chunks: [] }
+      files += 1
+    }
+    current?.chunks.push({
+      start_line: row.start_line,
+      end_line: row.end_line,
+      display_start: row.display_start ?? row.start_line,
+      display_end: row.display_end ?? row.end_line,
+      symbol: row.symbol,
+      symbol_kind: row.symbol_kind,
+      content: row.content,
+      embedding: Buffer.from(row.embedding).toString("base64"),
+    })
+    chunks += 1
+  }
+  if (current) await writeLine(gzip, current)
+
+  gzip.end()
+  await once(output, "finish")
+  return { files, chunks, modelId: header.model_id }
+}
+
+/**
+ * Adopts exported chunks for files whose local content hash matches, rebasing paths onto `worktree`.
+ * Files that differ or are missing are left for the next indexing pass to embed.
+ */
+export async function importSemanticIndex(worktree: string, inPath: string, config: SemanticConfig) {
+  if (!fs.existsSync(inPath)) throw new Error(`Export file not found: ${inPath}`)
+  fs.mkdirSync(getDbDir(worktree), { recursive: true })
+  const dbPath = getDbPath(worktree)
+  const db = getDb(dbPath)
+  const model = await getEmbedder(worktree, config.embedding)
+  const local = {
+    modelId: model.modelId,
+    dimension: model.dimension,
+    chunkerVersion: chunkerSignature(getChunkOptions(model, config)),
+  }
+
+  const lines = readline.createInterface({ input: fs.createReadStream(inPath).pipe(zlib.createGunzip()), crlfDelay: Infinity })
+  const hashQuery = db.query("SELECT hash FROM files WHERE path = ?")
+
+  let header: ExportHeader | undefined
+  let imported = 0
+  let unchanged = 0
+  let differing = 0
+  let chunks = 0
+
+  for await (const line of lines) {
+    if (!line.trim()) continue
+    if (!header) {
+      header = JSON.parse(line) as ExportHeader
+      if (header.format !== EXPORT_FORMAT || header.version !== EXPORT_VERSION) {
+        throw new Error(`${inPath} is not an ${EXPORT_FORMAT} v${EXPORT_VERSION} export`)
+      }
+      const exported = {
+        model_id: header.model_id,
+        dimension: String(header.dimension),
+        chunker_version: header.chunker_version,
+      }
+      const mismatch = getIndexMismatch(exported, local)
+      if (mismatch) {
+        throw new Error(`Cannot import ${inPath}: ${mismatch}. Configure the same embedding model and chunking as the export.`)
+      }
+      // A local index built with something else cannot be mixed with the imported vectors
+      if (getIndexMismatch(readMeta(db), local)) {
+        db.run("DELETE FROM chunks")
+        db.run("DELETE FROM files")
+        dropVectorStore(dbPath)
+      }
+      writeMeta(db, { model_id: local.modelId, dimension: local.dimension, chunker_version: local.chunkerVersion })
+      continue
+    }
+
+    const record = JSON.parse(line) as ExportedFile
+    const absPath = path.join(worktree, ...record.path.split("/"))
+    const rel = path.relative(worktree, absPath)
+    if (rel.startsWith("..") || path.isAbsolute(rel)) {
+      differing += 1
+      continue
+    }
+    const stat = await fs.promises.stat(absPath).catch(() => undefined)
+    if (!stat?.isFile() || hashContent(await Bun.file(absPath).bytes()) !== record.hash) {
+      differing += 1
+      continue
+    }
+    if ((hashQuery.get(absPath) as { hash: string | null } | null)?.hash === record.hash) {
+      unchanged += 1
+      continue
+    }
+
+    storeFile(db, dbPath, {
+      target: { absPath, stat, hash: record.hash },
+      chunks: record.chunks.map((chunk) => ({
+        path: absPath,
+        startLine: chunk.start_line,
+        endLine: chunk.end_line,
+        content: chunk.content,
+        displayStart: chunk.display_start,
+        displayEnd: chunk.display_end,
+        symbol: chunk.symbol ?? undefined,
+        symbolKind: chunk.symbol_kind ?? undefined,
+      })),
+      hashes: record.chunks.map((chunk) => hashContent(chunk.content)),
+      embeddings: record.chunks.map((chunk) => Buffer.from(chunk.embedding, "base64")),
+    })
+    imported += 1
+    chunks += record.chunks.length
+  }
+
+  if (!header) throw new Error(`${inPath} is empty`)
+  return { imported, unchanged, differing, chunks, modelId: header.model_id }
+}
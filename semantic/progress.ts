@@ -0,0 +1,16 @@
+/**
+ * Progress bar for the CLI indexer; the plugin logs only the final summary.
+ */
+import type { IndexProgress } from "./index.js"
+
+const BAR_WIDTH = 24
+
+export function formatProgress(progress: IndexProgress, width = BAR_WIDTH) {
+  if (progress.total === 0) return "[semantic] no files to index"
+  const percent = Math.floor((progress.processed / progress.total) * 100)
+  const filled = Math.round((percent / 100) * width)
+  const bar = "=".repeat(filled) + "-".repeat(width - filled)
+  const current = progress.currentPath ? `\n  ${progress.currentPath}` : ""
+  const rate = progress.chunksPerSecond > 0 ? ` (${progress.chunksPerSecond.toFixed(1)}/s)` : ""
+  return `[semantic] [${bar}] ${percent}% ${progress.processed}/${progress.total} files, chunks: ${progress.chunks}${rate}${current}`
+}
@@ -0,0 +1,42 @@
+/**
+ * Local ONNX embeddings via fastembed.
+ * Downloads the model into the worktree's cache on first use and runs it on the CPU.
+ */
+import { EmbeddingModel, ExecutionProvider, FlagEmbedding } from "fastembed"
+import type { EmbeddingProvider } from "../embedder.js"
+
+export const FASTEMBED_MODELS = Object.keys(EmbeddingModel).filter((name) => name !== "CUSTOM")
+
+// Sequence lengths the models were trained with; fastembed itself would accept up to 512
+const DEFAULT_MAX_TOKENS = 512
+const MAX_TOKENS: Record<string, number> = { AllMiniLML6V2: 256 }
+
+export async function createFastembedProvider(
+  model: string,
+  cacheDir: string,
+  maxTokens?: number,
+): Promise<EmbeddingProvider> {
+  const modelName = EmbeddingModel[model as keyof typeof EmbeddingModel] as Exclude<EmbeddingModel, EmbeddingModel.CUSTOM>
+  const embedding = await FlagEmbedding.init({
+    model: modelName,
+    executionProviders: [ExecutionProvider.CPU],
+    cacheDir,
+    showDownloadProgress: true,
+  })
+  const info = embedding.listSupportedModels().find((item) => item.model === modelName)
+  if (!info) throw new Error(`Unsupported fastembed model: ${model}`)
+
+  return {
+    modelId: `fastembed/${model}`,
+    dimension: info.dim,
+    maxTokens: maxTokens ?? MAX_TOKENS[model] ?? DEFAULT_MAX_TOKENS,
+    embedPassages: async (texts, batchSize) => {
+      const vectors: number[][] = []
+      for await (const batch of embedding.passageEmbed(texts, batchSize)) {
+        vectors.push(...batch)
+      }
+      return vectors
+    },
+    embedQuery: (text) => embedding.queryEmbed(text),
+  }
+}
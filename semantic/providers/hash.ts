@@ -0,0 +1,29 @@
+/**
+ * Deterministic feature-hashing embeddings.
+ * Needs no model download, so tests and offline setups can exercise the full indexer;
+ * vectors only capture shared words, not meaning.
+ */
+import type { EmbeddingProvider } from "../embedder.js"
+
+function embed(text: string, dimension: number) {
+  const vec = new Array<number>(dimension).fill(0)
+  for (const token of text.toLowerCase().match(/[\p{L}\p{N}_]+/gu) ?? []) {
+    const hash = Number(Bun.hash.wyhash(token) & 0xffffffffn)
+    // The top bit picks the sign so collisions tend to cancel out instead of piling up
+    vec[hash % dimension] += hash & 0x80000000 ? -1 : 1
+  }
+  return vec
+}
+
+// Hashing has no sequence limit; this only keeps chunks comparable in size to real models
+const DEFAULT_MAX_TOKENS = 512
+
+export function createHashProvider(dimension: number, maxTokens = DEFAULT_MAX_TOKENS): EmbeddingProvider {
+  return {
+    modelId: `hash/${dimension}`,
+    dimension,
+    maxTokens,
+    embedPassages: async (texts) => texts.map((text) => embed(text, dimension)),
+    embedQuery: async (text) => embed(text, dimension),
+  }
+}
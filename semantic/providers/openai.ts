@@ -0,0 +1,60 @@
+/**
+ * Embeddings from an OpenAI-compatible HTTP endpoint.
+ * Targets local servers such as Ollama or llama.cpp that expose POST /embeddings.
+ */
+import type { EmbeddingProvider } from "../embedder.js"
+
+type OpenAIOptions = {
+  url: string
+  model: string
+  dimension?: number
+  maxTokens?: number
+  apiKey?: string
+}
+
+// Conservative default; most local embedding servers accept at least this much
+const DEFAULT_MAX_TOKENS = 512
+
+type EmbeddingResponse = { data: Array<{ embedding: number[]; index: number }> }
+
+export async function createOpenAIProvider(options: OpenAIOptions): Promise<EmbeddingProvider> {
+  const endpoint = `${options.url.replace(/\/+$/, "")}/embeddings`
+
+  const request = async (input: string[]) => {
+    const response = await fetch(endpoint, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(options.apiKey ? { Authorization: `Bearer ${options.apiKey}` } : {}),
+      },
+      body: JSON.stringify({ model: options.model, input }),
+    }).catch((error) => {
+      throw new Error(`Embedding endpoint ${endpoint} is unreachable: ${error instanceof Error ? error.message : error}`)
+    })
+    if (!response.ok) {
+      throw new Error(`Embedding request to ${endpoint} failed: ${response.status} ${await response.text()}`)
+    }
+    const body = (await response.json()) as EmbeddingResponse
+    if (!Array.isArray(body.data) || body.data.length !== input.length) {
+      throw new Error(`Embedding endpoint ${endpoint} returned ${body.data?.length ?? 0} vectors for ${input.length} inputs`)
+    }
+    return body.data.sort((a, b) => a.index - b.index).map((item) => item.embedding)
+  }
+
+  // Probe once when the dimension is not configured so the index can record it
+  const dimension = options.dimension ?? (await request(["dimension probe"]))[0].length
+
+  return {
+    modelId: `openai/${options.model}`,
+    dimension,
+    maxTokens: options.maxTokens ?? DEFAULT_MAX_TOKENS,
+    embedPassages: async (texts, batchSize) => {
+      const vectors: number[][] = []
+      for (let i = 0; i < texts.length; i += batchSize) {
+        vectors.push(...(await request(texts.slice(i, i + batchSize))))
+      }
+      return vectors
+    },
+    embedQuery: async (text) => (await request([text]))[0],
+  }
+}
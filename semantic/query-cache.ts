@@ -0,0 +1,89 @@
+/**
+ * Query embedding cache.
+ * Keeps recent query vectors in memory and in semantic.sqlite, keyed by model id and normalized
+ * query text, so a query repeated across turns or sessions skips the model.
+ */
+import type { Database } from "bun:sqlite"
+import { encodeEmbedding, decodeEmbedding, type EmbeddingProvider } from "./embedder.js"
+
+const MEMORY_ENTRIES = 256
+const PERSISTED_ENTRIES = 2000
+
+// Insertion order doubles as recency: hits are moved to the end, the oldest entry is evicted first
+const memory = new Map<string, Float32Array>()
+
+/** Case and whitespace differences do not change what the agent is asking for. */
+export function normalizeQuery(query: string) {
+  return query.trim().replace(/\s+/g, " ").toLowerCase()
+}
+
+function remember(key: string, vector: Float32Array) {
+  memory.delete(key)
+  memory.set(key, vector)
+  if (memory.size > MEMORY_ENTRIES) memory.delete(memory.keys().next().value as string)
+}
+
+function count(db: Database, key: "query_cache_hits" | "query_cache_misses") {
+  db.query(
+    "INSERT INTO meta (key, value) VALUES (?, '1') ON CONFLICT(key) DO UPDATE SET value = CAST(value AS INTEGER) + 1",
+  ).run(key)
+}
+
+/**
+ * Embeds `query` once per model and normalized text. With `db` the vector is also persisted
+ * and the lookup is counted in the index stats; without it only this process's memory is used.
+ */
+export async function embedQueryCached(model: EmbeddingProvider, query: string, db?: Database) {
+  const normalized = normalizeQuery(query)
+  const key = `${model.modelId}\u0000${normalized}`
+  const now = Date.now()
+
+  const cached = memory.get(key)
+  if (cached) {
+    remember(key, cached)
+    if (db) {
+      db.query("UPDATE query_cache SET used_at = ? WHERE model_id = ? AND query = ?").run(now, model.modelId, normalized)
+      count(db, "query_cache_hits")
+    }
+    return cached
+  }
+
+  const row = db
+    ?.query("SELECT embedding FROM query_cache WHERE model_id = ? AND query = ?")
+    .get(model.modelId, normalized) as { embedding: Uint8Array } | null | undefined
+  if (db && row) {
+    // Copy out of the row's buffer so the cached vector does not pin it
+    const vector = new Float32Array(decodeEmbedding(row.embedding))
+    db.query("UPDATE query_cache SET used_at = ? WHERE model_id = ? AND query = ?").run(now, model.modelId, normalized)
+    count(db, "query_cache_hits")
+    remember(key, vector)
+    return vector
+  }
+
+  const embedding = await model.embedQuery(query)
+  const vector = new Float32Array(embedding)
+  if (db) {
+    db.query("INSERT OR REPLACE INTO query_cache (model_id, query, embedding, used_at) VALUES (?, ?, ?, ?)").run(
+      model.modelId,
+      normalized,
+      encodeEmbedding(embedding),
+      now,
+    )
+    db.query(
+      "DELETE FROM query_cache WHERE rowid IN (SELECT rowid FROM query_cache ORDER BY used_at DESC LIMIT -1 OFFSET ?)",
+    ).run(PERSISTED_ENTRIES)
+    count(db, "query_cache_misses")
+  }
+  remember(key, vector)
+  return vector
+}
+
+/** Persisted entries and lifetime hit/miss counts, for status reports. */
+export function getQueryCacheStats(db: Database) {
+  const { entries } = db.query("SELECT COUNT(*) AS entries FROM query_cache").get() as { entries: number }
+  const counters = db
+    .query("SELECT key, value FROM meta WHERE key IN ('query_cache_hits', 'query_cache_misses')")
+    .all() as Array<{ key: string; value: string }>
+  const read = (key: string) => Number(counters.find((row) => row.key === key)?.value ?? 0)
+  return { entries, hits: read("query_cache_hits"), misses: read("query_cache_misses") }
+}
@@ -0,0 +1,103 @@
+/**
+ * Search result rendering shared by the search tools and the CLI.
+ * Merges neighbouring hits and prints them from disk as numbered lines with a focus range.
+ */
+import * as path from "path"
+import { mergeHits, type MergedHit, type SearchFilters, type SearchResult } from "./search.js"
+import { localizeLines } from "./localize.js"
+import { BREADCRUMB_SEPARATOR } from "./data-chunker.js"
+import type { EmbeddingProvider } from "./embedder.js"
+import { numberLines } from "../util/text.js"
+
+const MAX_CONTEXT = 20
+const MAX_SNIPPET_LINES = 60
+// Embedding windows costs a model call per hit, so only the best few hits are narrowed by meaning
+const SEMANTIC_FOCUS_HITS = 3
+// Neighbouring chunks collapse when merged, so fetch extra hits to still fill `limit` ranges
+export const MERGE_FETCH_FACTOR = 3
+
+export function describeFilters(filters: SearchFilters) {
+  const parts: string[] = []
+  if (filters.path) parts.push(`path=${filters.path}`)
+  if (filters.include?.length) parts.push(`include=${filters.include.join(",")}`)
+  if (filters.exclude?.length) parts.push(`exclude=${filters.exclude.join(",")}`)
+  if (filters.extensions?.length) parts.push(`extensions=${filters.extensions.join(",")}`)
+  if (filters.minScore !== undefined) parts.push(`minScore=${filters.minScore}`)
+  return parts.length > 0 ? `Filters: ${parts.join(" ")}` : undefined
+}
+
+const BREADCRUMB_KINDS = new Set(["key", "rows", "section"])
+
+// Data and markdown chunks read as a breadcrumb from the file name; code chunks name their declaration
+function describeSymbol(hit: MergedHit) {
+  if (!hit.symbol) return undefined
+  if (hit.symbol_kind && BREADCRUMB_KINDS.has(hit.symbol_kind)) {
+    return `section: ${path.basename(hit.path)}${BREADCRUMB_SEPARATOR}${hit.symbol}`
+  }
+  return `symbol: ${hit.symbol_kind ?? "symbol"} ${hit.symbol}`
+}
+
+type FormatOptions = {
+  limit: number
+  context?: number
+  // When set, each hit is narrowed to the lines that best answer the query
+  query?: string
+  model?: EmbeddingProvider
+}
+
+/**
+ * Merges neighbouring hits, keeps the best `limit` ranges, and renders them from disk
+ * with `context` extra lines on each side, numbered like chat_read; focus lines are marked ">".
+ */
+export async function formatSearchResults(worktree: string, results: SearchResult[], options: FormatOptions) {
+  const context = Math.max(0, Math.min(options.context ?? 0, MAX_CONTEXT))
+  const lines = new Map<string, string[] | undefined>()
+  const blocks: string[] = []
+
+  for (const hit of mergeHits(results)) {
+    if (blocks.length >= options.limit) break
+    if (!lines.has(hit.path)) {
+      lines.set(hit.path, await Bun.file(hit.path).text().then((text) => text.split("\n"), () => undefined))
+    }
+    const fileLines = lines.get(hit.path)
+    if (!fileLines) continue
+
+    // Narrow to the best embedded window, then to the lines in it that answer the query
+    const matched = fileLines.slice(hit.match_start - 1, hit.match_end)
+    const model = blocks.length < SEMANTIC_FOCUS_HITS ? options.model : undefined
+    const localized = options.query ? await localizeLines(matched, hit.match_start, options.query, model) : undefined
+    const narrower = hit.match_start > hit.start_line || hit.match_end < hit.end_line
+    const focus = localized ?? (narrower ? { start_line: hit.match_start, end_line: hit.match_end, terms: [] } : undefined)
+
+    let start = Math.max(1, hit.start_line - context)
+    const end = Math.min(fileLines.length, hit.end_line + context)
+    // Long ranges are cut to a window that keeps the focus in view
+    if (focus && focus.end_line >= start + MAX_SNIPPET_LINES) start = Math.max(start, focus.start_line - context)
+    const shown = Math.min(end, start + MAX_SNIPPET_LINES - 1)
+    const body = numberLines(fileLines.slice(start - 1, shown), start).map((line, index) => {
+      if (!focus) return line
+      const lineNumber = start + index
+      return lineNumber >= focus.start_line && lineNumber <= focus.end_line ? `>${line}` : ` ${line}`
+    })
+    if (start > Math.max(1, hit.start_line - context)) body.unshift(`(lines ${hit.start_line}-${start - 1} omitted)`)
+    if (shown < end) body.push(`(${end - shown} more lines, use chat_read with offset=${shown})`)
+
+    const merged = hit.chunks > 1 ? ` (${hit.chunks} chunks merged)` : ""
+    const focusLine = focus
+      ? `focus: ${focus.start_line}-${focus.end_line} (chat_read offset=${focus.start_line - 1} limit=${focus.end_line - focus.start_line + 1})` +
+        (focus.terms.length > 0 ? ` matching ${focus.terms.join(", ")}` : "")
+      : undefined
+    blocks.push(
+      [
+        `${blocks.length + 1}. ${path.relative(worktree, hit.path)}:${hit.start_line}-${hit.end_line}${merged}`,
+        `score: ${hit.score.toFixed(3)}`,
+        describeSymbol(hit),
+        focusLine,
+        ...body,
+      ]
+        .filter(Boolean)
+        .join("\n"),
+    )
+  }
+  return blocks.join("\n\n")
+}
@@ -0,0 +1,360 @@
+/**
+ * Semantic, lexical, and hybrid retrieval over the chunk index.
+ * Ranks chunks by embedding similarity and/or FTS5 BM25 and fuses both lists
+ * with reciprocal rank fusion so exact identifiers and fuzzy meaning both land.
+ * Also answers "more like this" queries from an existing file or line range.
+ */
+import * as fs from "fs/promises"
+import * as path from "path"
+import type { Database } from "bun:sqlite"
+import { getDb, getDbPath, readMeta, getIndexMismatch } from "./db.js"
+import { decodeEmbedding, getEmbedder } from "./embedder.js"
+import { loadSemanticConfig, type EmbeddingConfig, type SemanticConfig } from "./config.js"
+import { getVectorStore, type ScoredChunk } from "./store.js"
+import { embedQueryCached } from "./query-cache.js"
+import { hashContent } from "./index.js"
+
+export type SearchMode = "semantic" | "lexical" | "hybrid"
+
+export type SearchFilters = {
+  // Directory relative to the worktree; only files under it are searched
+  path?: string
+  // Globs matched against worktree-relative paths, e.g. "src/**/*.ts"
+  include?: string[]
+  exclude?: string[]
+  extensions?: string[]
+  // Drops results scoring below this, on the scale of the chosen mode
+  minScore?: number
+}
+
+export type SearchOptions = {
+  limit: number
+  mode?: SearchMode
+  filters?: SearchFilters
+  // Defaults to the worktree's .opencode/chat/config.json
+  config?: SemanticConfig
+}
+
+export type SearchResult = {
+  id: number
+  path: string
+  // Lines that were embedded and matched
+  start_line: number
+  end_line: number
+  // Enclosing section or block the match belongs to
+  display_start: number
+  display_end: number
+  // Declaration the chunk belongs to, for source files the chunker understands
+  symbol: string | null
+  symbol_kind: string | null
+  content: string
+  score: number
+}
+
+const RRF_K = 60
+const MIN_CANDIDATES = 50
+
+type PathFilter = {
+  // Coarse SQL prefilter over chunks.path; accepts() has the final say
+  sql: string
+  params: string[]
+  accepts: (absPath: string) => boolean
+}
+
+function escapeLike(value: string) {
+  return value.replace(/[\\%_]/g, "\\$&")
+}
+
+function compilePathFilter(worktree: string, filters: SearchFilters): PathFilter | undefined {
+  const clauses: string[] = []
+  const params: string[] = []
+
+  let scope: string | undefined
+  if (filters.path) {
+    scope = path.resolve(worktree, filters.path)
+    const rel = path.relative(worktree, scope)
+    if (rel.startsWith("..") || path.isAbsolute(rel)) {
+      throw new Error(`Search path must be inside the project: ${filters.path}`)
+    }
+    if (rel) {
+      clauses.push("(chunks.path = ? OR chunks.path LIKE ? ESCAPE '\\')")
+      params.push(scope, `${escapeLike(scope + path.sep)}%`)
+    } else {
+      scope = undefined
+    }
+  }
+
+  const extensions = (filters.extensions ?? []).map((ext) => {
+    const lower = ext.trim().toLowerCase()
+    return lower.startsWith(".") ? lower : `.${lower}`
+  })
+  if (extensions.length > 0) {
+    clauses.push(`(${extensions.map(() => "chunks.path LIKE ? ESCAPE '\\'").join(" OR ")})`)
+    params.push(...extensions.map((ext) => `%${escapeLike(ext)}`))
+  }
+
+  const include = (filters.include ?? []).map((pattern) => new Bun.Glob(pattern))
+  const exclude = (filters.exclude ?? []).map((pattern) => new Bun.Glob(pattern))
+  if (!scope && extensions.length === 0 && include.length === 0 && exclude.length === 0) return undefined
+
+  const cache = new Map<string, boolean>()
+  const accepts = (absPath: string) => {
+    const cached = cache.get(absPath)
+    if (cached !== undefined) return cached
+    const rel = path.relative(worktree, absPath).split(path.sep).join("/")
+    const ok =
+      (!scope || absPath === scope || absPath.startsWith(scope + path.sep)) &&
+      (extensions.length === 0 || extensions.includes(path.extname(absPath).toLowerCase())) &&
+      (include.length === 0 || include.some((glob) => glob.match(rel))) &&
+      !exclude.some((glob) => glob.match(rel))
+    cache.set(absPath, ok)
+    return ok
+  }
+
+  return { sql: clauses.join(" AND "), params, accepts }
+}
+
+async function getCompatibleEmbedder(db: Database, worktree: string, embedding: EmbeddingConfig) {
+  const model = await getEmbedder(worktree, embedding)
+  const mismatch = getIndexMismatch(readMeta(db), model)
+  if (mismatch) {
+    throw new Error(
+      `Semantic index is incompatible (${mismatch}). It is rebuilt on the next startup or by running opencode-chat-semantic-index; use mode "lexical" until then.`,
+    )
+  }
+  return model
+}
+
+async function rankByVector(
+  db: Database,
+  worktree: string,
+  config: SemanticConfig,
+  query: string,
+  candidates: number,
+  filter?: PathFilter,
+) {
+  const model = await getCompatibleEmbedder(db, worktree, config.embedding)
+  const queryVec = await embedQueryCached(model, query, db)
+  const store = getVectorStore(db, getDbPath(worktree), { quantize: config.quantize })
+  return store.search(queryVec, candidates, filter?.accepts)
+}
+
+// Quote every term so FTS5 syntax characters in the query are treated as text
+function toFtsQuery(query: string) {
+  const terms = query.match(/[\p{L}\p{N}_]+/gu) ?? []
+  return terms.map((term) => `"${term}"`).join(" OR ")
+}
+
+function rankByText(db: Database, query: string, candidates: number, filter?: PathFilter) {
+  const ftsQuery = toFtsQuery(query)
+  if (!ftsQuery) return []
+
+  const where = filter?.sql ? ` AND ${filter.sql}` : ""
+  const rows = db
+    .query(
+      `SELECT chunks_fts.rowid AS id, chunks.path AS path, bm25(chunks_fts) AS rank
+       FROM chunks_fts JOIN chunks ON chunks.id = chunks_fts.rowid
+       WHERE chunks_fts MATCH ?${where} ORDER BY rank`,
+    )
+    .iterate(ftsQuery, ...(filter?.params ?? [])) as Iterable<{ id: number; path: string; rank: number }>
+
+  // bm25() is lower-is-better; flip it so every ranking reads higher-is-better
+  const ranked: ScoredChunk[] = []
+  for (const row of rows) {
+    if (filter && !filter.accepts(row.path)) continue
+    ranked.push({ id: row.id, score: -row.rank })
+    if (ranked.length >= candidates) break
+  }
+  return ranked
+}
+
+// Resolves ranked ids to chunk rows, skipping anything the index still has but the disk no longer does
+async function loadResults(db: Database, ranked: ScoredChunk[], limit: number) {
+  const getChunk = db.prepare(
+    `SELECT id, path, start_line, end_line, COALESCE(display_start, start_line) AS display_start,
+       COALESCE(display_end, end_line) AS display_end, symbol, symbol_kind, content FROM chunks WHERE id = ?`,
+  )
+  const exists = new Map<string, boolean>()
+  const results: SearchResult[] = []
+  for (const item of ranked) {
+    if (results.length >= limit) break
+    const row = getChunk.get(item.id) as Omit<SearchResult, "score"> | null
+    if (!row) continue
+    if (!exists.has(row.path)) {
+      exists.set(
+        row.path,
+        await fs
+          .stat(row.path)
+          .then(() => true)
+          .catch(() => false),
+      )
+    }
+    if (exists.get(row.path)) results.push({ ...row, score: item.score })
+  }
+  return results
+}
+
+// Reciprocal rank fusion, normalized so a chunk ranked first by both lists scores 1
+function fuseRankings(rankings: ScoredChunk[][]) {
+  const fused = new Map<number, number>()
+  for (const ranking of rankings) {
+    ranking.forEach((item, rank) => {
+      fused.set(item.id, (fused.get(item.id) ?? 0) + 1 / (RRF_K + rank + 1))
+    })
+  }
+  const best = rankings.length / (RRF_K + 1)
+  return [...fused.entries()]
+    .map(([id, score]) => ({ id, score: score / best }))
+    .sort((a, b) => b.score - a.score)
+}
+
+export async function semanticSearch(worktree: string, query: string, options: SearchOptions) {
+  const db = getDb(getDbPath(worktree))
+  const mode = options.mode ?? "hybrid"
+  const config = options.config ?? (await loadSemanticConfig(worktree))
+  const candidates = Math.max(options.limit * 4, MIN_CANDIDATES)
+  const filters = options.filters ?? {}
+  const filter = compilePathFilter(worktree, filters)
+
+  let ranked: ScoredChunk[]
+  if (mode === "semantic") {
+    ranked = await rankByVector(db, worktree, config, query, candidates, filter)
+  } else if (mode === "lexical") {
+    ranked = rankByText(db, query, candidates, filter)
+  } else {
+    ranked = fuseRankings([
+      await rankByVector(db, worktree, config, query, candidates, filter),
+      rankByText(db, query, candidates, filter),
+    ])
+  }
+  if (filters.minScore !== undefined) {
+    const minScore = filters.minScore
+    ranked = ranked.filter((item) => item.score >= minScore)
+  }
+
+  return loadResults(db, ranked, options.limit)
+}
+
+export type MergedHit = {
+  path: string
+  start_line: number
+  end_line: number
+  // Best score among the merged chunks, and the embedded lines that earned it
+  score: number
+  match_start: number
+  match_end: number
+  symbol: string | null
+  symbol_kind: string | null
+  chunks: number
+}
+
+/** Groups hits by file and merges overlapping or touching display ranges, best-scoring first. */
+export function mergeHits(results: SearchResult[]) {
+  const byPath = new Map<string, SearchResult[]>()
+  for (const result of results) {
+    const list = byPath.get(result.path) ?? []
+    list.push(result)
+    byPath.set(result.path, list)
+  }
+
+  const merged: MergedHit[] = []
+  for (const [filePath, hits] of byPath) {
+    hits.sort((a, b) => a.display_start - b.display_start)
+    let current: MergedHit | undefined
+    for (const hit of hits) {
+      if (current && hit.display_start <= current.end_line + 1) {
+        current.end_line = Math.max(current.end_line, hit.display_end)
+        current.chunks += 1
+        if (hit.score > current.score) {
+          current.score = hit.score
+          current.match_start = hit.start_line
+          current.match_end = hit.end_line
+          current.symbol = hit.symbol
+          current.symbol_kind = hit.symbol_kind
+        }
+        continue
+      }
+      current = {
+        path: filePath,
+        start_line: hit.display_start,
+        end_line: hit.display_end,
+        score: hit.score,
+        match_start: hit.start_line,
+        match_end: hit.end_line,
+        symbol: hit.symbol,
+        symbol_kind: hit.symbol_kind,
+        chunks: 1,
+      }
+      merged.push(current)
+    }
+  }
+  return merged.sort((a, b) => b.score - a.score)
+}
+
+export type SimilarOptions = {
+  limit: number
+  // 1-based inclusive line range within the source file; defaults to the whole file
+  startLine?: number
+  endLine?: number
+  filters?: Omit<SearchFilters, "path">
+  config?: SemanticConfig
+}
+
+function meanVector(vectors: Float32Array[]) {
+  const out = new Float32Array(vectors[0].length)
+  for (const vec of vectors) {
+    let norm = 0
+    for (let i = 0; i < vec.length; i++) norm += vec[i] * vec[i]
+    norm = Math.sqrt(norm) || 1
+    for (let i = 0; i < vec.length; i++) out[i] += vec[i] / norm
+  }
+  return out
+}
+
+/**
+ * Finds chunks in other files that resemble a file or line range.
+ * Reuses stored embeddings when the indexed copy is current, otherwise embeds the range on the fly.
+ */
+export async function similarSearch(worktree: string, absPath: string, options: SimilarOptions) {
+  const db = getDb(getDbPath(worktree))
+  const config = options.config ?? (await loadSemanticConfig(worktree))
+  const startLine = options.startLine ?? 1
+  const endLine = options.endLine ?? Number.MAX_SAFE_INTEGER
+  if (startLine < 1 || endLine < startLine) {
+    throw new Error(`Invalid line range ${startLine}-${options.endLine}`)
+  }
+
+  const stat = await fs.stat(absPath).catch(() => undefined)
+  if (!stat?.isFile()) throw new Error(`File not found: ${absPath}`)
+  const model = await getCompatibleEmbedder(db, worktree, config.embedding)
+
+  let source: Float32Array | undefined
+  const bytes = await Bun.file(absPath).bytes()
+  const indexed = db.query("SELECT hash FROM files WHERE path = ?").get(absPath) as { hash: string | null } | null
+  // Content, not mtime, decides: an edit within the same second and size must not reuse old vectors
+  if (indexed?.hash && indexed.hash === hashContent(bytes)) {
+    const rows = db
+      .query("SELECT embedding FROM chunks WHERE path = ? AND start_line <= ? AND end_line >= ?")
+      .all(absPath, endLine, startLine) as Array<{ embedding: Uint8Array }>
+    if (rows.length > 0) source = meanVector(rows.map((row) => decodeEmbedding(row.embedding)))
+  }
+  if (!source) {
+    const lines = new TextDecoder().decode(bytes).split("\n")
+    const text = lines.slice(startLine - 1, endLine).join("\n").trim()
+    if (!text) throw new Error(`No text in ${absPath} at lines ${startLine}-${options.endLine ?? lines.length}`)
+    const [embedding] = await model.embedPassages([text], 1)
+    source = new Float32Array(embedding)
+  }
+
+  const filter = compilePathFilter(worktree, options.filters ?? {})
+  const candidates = Math.max(options.limit * 4, MIN_CANDIDATES)
+  let ranked = getVectorStore(db, getDbPath(worktree), { quantize: config.quantize }).search(
+    source,
+    candidates,
+    (filePath) => filePath !== absPath && (!filter || filter.accepts(filePath)),
+  )
+  const minScore = options.filters?.minScore
+  if (minScore !== undefined) ranked = ranked.filter((item) => item.score >= minScore)
+
+  return loadResults(db, ranked, options.limit)
+}
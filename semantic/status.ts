@@ -0,0 +1,139 @@
+/**
+ * Health report for the semantic index.
+ * Summarizes what is indexed, what the indexer refused, and what changed on disk since,
+ * without loading the vector store.
+ */
+import * as fs from "fs/promises"
+import * as path from "path"
+import { getDb, getDbPath, readMeta } from "./db.js"
+import { getLoadedVectorStore, getVectorStore } from "./store.js"
+import { getQueryCacheStats } from "./query-cache.js"
+import { hashContent } from "./index.js"
+
+export type IndexStatus = Awaited<ReturnType<typeof getIndexStatus>>
+
+type StatusOptions = {
+  // Load the vector store to report its memory; one-shot callers such as the CLI have never searched
+  loadStore?: boolean
+  quantize?: boolean
+}
+
+export async function getIndexStatus(worktree: string, options: StatusOptions = {}) {
+  const dbPath = getDbPath(worktree)
+  const db = getDb(dbPath)
+  const meta = readMeta(db)
+
+  const files = db.query("SELECT path, mtime, size, hash FROM files").all() as Array<{
+    path: string
+    mtime: number
+    size: number | null
+    hash: string | null
+  }>
+  const chunkCounts = new Map(
+    (db.query("SELECT path, COUNT(*) AS count FROM chunks GROUP BY path").all() as Array<{ path: string; count: number }>).map(
+      (row) => [row.path, row.count],
+    ),
+  )
+
+  const byExtension = new Map<string, { files: number; chunks: number }>()
+  let chunks = 0
+  let stale = 0
+  let missing = 0
+  for (const file of files) {
+    const ext = path.extname(file.path).toLowerCase() || "(none)"
+    const count = chunkCounts.get(file.path) ?? 0
+    const entry = byExtension.get(ext) ?? { files: 0, chunks: 0 }
+    entry.files += 1
+    entry.chunks += count
+    byExtension.set(ext, entry)
+    chunks += count
+
+    const stat = await fs.stat(file.path).catch(() => undefined)
+    if (!stat) {
+      missing += 1
+      continue
+    }
+    if (file.size !== null && stat.size !== file.size) stale += 1
+    // A new mtime alone (touch, checkout) only counts once the content hash confirms an edit
+    else if (Math.floor(stat.mtimeMs) !== file.mtime) {
+      const hash = file.hash && (await Bun.file(file.path).bytes().then(hashContent, () => undefined))
+      if (!file.hash || hash !== file.hash) stale += 1
+    }
+  }
+
+  const skipped = db.query("SELECT path, reason FROM skipped_files ORDER BY path").all() as Array<{
+    path: string
+    reason: string
+  }>
+
+  let dbBytes = 0
+  for (const suffix of ["", "-wal", "-shm"]) {
+    dbBytes += (await fs.stat(dbPath + suffix).catch(() => undefined))?.size ?? 0
+  }
+
+  return {
+    files: files.length,
+    chunks,
+    byExtension: [...byExtension.entries()]
+      .map(([ext, counts]) => ({ ext, ...counts }))
+      .sort((a, b) => b.chunks - a.chunks),
+    dbBytes,
+    modelId: meta.model_id,
+    dimension: meta.dimension ? Number(meta.dimension) : undefined,
+    indexedAt: meta.indexed_at,
+    stale,
+    missing,
+    tooLarge: skipped.filter((row) => row.reason === "too-large").map((row) => row.path),
+    tooManyChunks: skipped.filter((row) => row.reason === "too-many-chunks").map((row) => row.path),
+    queryCache: getQueryCacheStats(db),
+    // Without loadStore, only present when this process has searched, so reporting never pays for a load
+    store: (options.loadStore ? getVectorStore(db, dbPath, { quantize: options.quantize }) : getLoadedVectorStore(dbPath))?.stats(),
+  }
+}
+
+const MAX_LISTED = 10
+
+function listPaths(worktree: string, label: string, paths: string[]) {
+  if (paths.length === 0) return []
+  const shown = paths.slice(0, MAX_LISTED).map((p) => `  ${path.relative(worktree, p)}`)
+  if (paths.length > MAX_LISTED) shown.push(`  ... and ${paths.length - MAX_LISTED} more`)
+  return [`${label}: ${paths.length}`, ...shown]
+}
+
+/** Plain-text rendering shared by chat_semantic_status and the CLI `stats` command. */
+export function formatIndexStatus(worktree: string, status: IndexStatus) {
+  const mb = (bytes: number) => (bytes / (1024 * 1024)).toFixed(1)
+  const lines = [
+    `files: ${status.files}, chunks: ${status.chunks}`,
+    `database: ${mb(status.dbBytes)} MB`,
+    `model: ${status.modelId ?? "unknown"}${status.dimension ? ` (${status.dimension} dims)` : ""}`,
+    `last indexed: ${status.indexedAt ?? "never"}`,
+    `stale files (changed since indexed): ${status.stale}`,
+    `missing files (deleted since indexed): ${status.missing}`,
+  ]
+  if (status.byExtension.length > 0) {
+    lines.push("by extension:")
+    for (const entry of status.byExtension) lines.push(`  ${entry.ext}: ${entry.files} files, ${entry.chunks} chunks`)
+  }
+  lines.push(...listPaths(worktree, "skipped (over maxFileBytes)", status.tooLarge))
+  lines.push(...listPaths(worktree, "skipped (over maxChunksPerFile)", status.tooManyChunks))
+  const lookups = status.queryCache.hits + status.queryCache.misses
+  if (lookups > 0) {
+    const rate = Math.round((status.queryCache.hits / lookups) * 100)
+    lines.push(
+      `query cache: ${status.queryCache.entries} entries, ${status.queryCache.hits} hits / ${status.queryCache.misses} misses (${rate}% hit rate)`,
+    )
+  }
+  if (status.store) {
+    lines.push(
+      `vector store: ${status.store.vectors} vectors x ${status.store.dimension} dims, ${mb(status.store.memoryBytes)} MB in memory`,
+    )
+    // Latency is measured per process: the plugin's session has it, a fresh CLI run does not
+    lines.push(
+      status.store.searches > 0
+        ? `search latency (this session): ${status.store.avgSearchMs.toFixed(1)} ms avg over ${status.store.searches} searches`
+        : "search latency: no searches in this session",
+    )
+  }
+  return lines.join("\n")
+}
@@ -0,0 +1,206 @@
+/**
+ * In-memory vector store for semantic search.
+ * Holds every chunk embedding, normalized, in one contiguous (optionally int8) buffer
+ * so queries are a single pass with a bounded top-k heap instead of a table scan.
+ */
+import type { Database } from "bun:sqlite"
+import { decodeEmbedding } from "./embedder.js"
+
+const INITIAL_CAPACITY = 1024
+const INT8_SCALE = 127
+
+export type ScoredChunk = { id: number; score: number }
+
+type StoreOptions = { quantize?: boolean }
+
+type StoreEntry = {
+  store: ReturnType<typeof createVectorStore>
+  dataVersion: number
+}
+
+const stores = new Map<string, StoreEntry>()
+
+function normalize(vec: Float32Array) {
+  let norm = 0
+  for (let i = 0; i < vec.length; i++) norm += vec[i] * vec[i]
+  norm = Math.sqrt(norm)
+  const out = new Float32Array(vec.length)
+  if (norm === 0) return out
+  for (let i = 0; i < vec.length; i++) out[i] = vec[i] / norm
+  return out
+}
+
+// Min-heap on score: the root is the weakest of the current top-k
+function pushBounded(heap: ScoredChunk[], item: ScoredChunk, k: number) {
+  if (heap.length < k) {
+    heap.push(item)
+    let i = heap.length - 1
+    while (i > 0) {
+      const parent = (i - 1) >> 1
+      if (heap[parent].score <= heap[i].score) break
+      ;[heap[parent], heap[i]] = [heap[i], heap[parent]]
+      i = parent
+    }
+    return
+  }
+  if (item.score <= heap[0].score) return
+  heap[0] = item
+  let i = 0
+  while (true) {
+    const left = i * 2 + 1
+    const right = left + 1
+    let smallest = i
+    if (left < heap.length && heap[left].score < heap[smallest].score) smallest = left
+    if (right < heap.length && heap[right].score < heap[smallest].score) smallest = right
+    if (smallest === i) break
+    ;[heap[smallest], heap[i]] = [heap[i], heap[smallest]]
+    i = smallest
+  }
+}
+
+export function createVectorStore(options: StoreOptions = {}) {
+  const quantize = options.quantize ?? false
+  let dimension = 0
+  let capacity = 0
+  let size = 0
+  let data: Float32Array | Int8Array = new Float32Array(0)
+  let ids: number[] = []
+  let paths: string[] = []
+  const slotById = new Map<number, number>()
+  const idsByPath = new Map<string, Set<number>>()
+  const latency = { searches: 0, totalMs: 0, lastMs: 0 }
+
+  const grow = (needed: number) => {
+    if (needed <= capacity) return
+    capacity = Math.max(needed, capacity * 2, INITIAL_CAPACITY)
+    const next = quantize ? new Int8Array(capacity * dimension) : new Float32Array(capacity * dimension)
+    next.set(data.subarray(0, size * dimension))
+    data = next
+  }
+
+  const remove = (id: number) => {
+    const slot = slotById.get(id)
+    if (slot === undefined) return
+    const last = size - 1
+    if (slot !== last) {
+      // Swap the last vector into the hole to keep the buffer dense
+      data.copyWithin(slot * dimension, last * dimension, size * dimension)
+      ids[slot] = ids[last]
+      paths[slot] = paths[last]
+      slotById.set(ids[slot], slot)
+    }
+    ids.pop()
+    paths.pop()
+    slotById.delete(id)
+    size = last
+  }
+
+  const add = (id: number, filePath: string, embedding: Float32Array) => {
+    if (dimension === 0) dimension = embedding.length
+    if (embedding.length !== dimension) {
+      throw new Error(`Embedding dimension ${embedding.length} does not match store dimension ${dimension}`)
+    }
+    remove(id)
+    grow(size + 1)
+    const vec = normalize(embedding)
+    const offset = size * dimension
+    for (let i = 0; i < dimension; i++) {
+      data[offset + i] = quantize ? Math.round(vec[i] * INT8_SCALE) : vec[i]
+    }
+    ids.push(id)
+    paths.push(filePath)
+    slotById.set(id, size)
+    const pathIds = idsByPath.get(filePath) ?? new Set<number>()
+    pathIds.add(id)
+    idsByPath.set(filePath, pathIds)
+    size += 1
+  }
+
+  const removePath = (filePath: string) => {
+    const pathIds = idsByPath.get(filePath)
+    if (!pathIds) return
+    for (const id of pathIds) remove(id)
+    idsByPath.delete(filePath)
+  }
+
+  // A rebuild may switch to a model with another dimension, so the buffer starts over too
+  const clear = () => {
+    dimension = 0
+    capacity = 0
+    size = 0
+    data = quantize ? new Int8Array(0) : new Float32Array(0)
+    ids = []
+    paths = []
+    slotById.clear()
+    idsByPath.clear()
+  }
+
+  // accept() is called per vector, so callers should memoize it per path
+  const search = (query: Float32Array, k: number, accept?: (filePath: string) => boolean) => {
+    const started = performance.now()
+    const heap: ScoredChunk[] = []
+    if (size > 0 && query.length === dimension && k > 0) {
+      const q = normalize(query)
+      const scale = quantize ? 1 / INT8_SCALE : 1
+      for (let slot = 0; slot < size; slot++) {
+        if (accept && !accept(paths[slot])) continue
+        const offset = slot * dimension
+        let dot = 0
+        for (let i = 0; i < dimension; i++) dot += q[i] * data[offset + i]
+        pushBounded(heap, { id: ids[slot], score: dot * scale }, k)
+      }
+    }
+    const elapsed = performance.now() - started
+    latency.searches += 1
+    latency.totalMs += elapsed
+    latency.lastMs = elapsed
+    return heap.sort((a, b) => b.score - a.score)
+  }
+
+  const stats = () => ({
+    vectors: size,
+    dimension,
+    quantized: quantize,
+    memoryBytes: data.byteLength + size * 16,
+    searches: latency.searches,
+    lastSearchMs: latency.lastMs,
+    avgSearchMs: latency.searches > 0 ? latency.totalMs / latency.searches : 0,
+  })
+
+  return { add, removePath, clear, search, stats }
+}
+
+function getDataVersion(db: Database) {
+  return (db.query("PRAGMA data_version").get() as { data_version: number }).data_version
+}
+
+/**
+ * Returns the process-wide store for a database, loading it on first use.
+ * Reloads when another process (e.g. the CLI indexer) has written to the database.
+ */
+export function getVectorStore(db: Database, dbPath: string, options: StoreOptions = {}) {
+  const dataVersion = getDataVersion(db)
+  const cached = stores.get(dbPath)
+  const quantize = options.quantize ?? false
+  if (cached && cached.dataVersion === dataVersion && cached.store.stats().quantized === quantize) return cached.store
+
+  const store = createVectorStore(options)
+  for (const row of db.query("SELECT id, path, embedding FROM chunks").iterate() as Iterable<{
+    id: number
+    path: string
+    embedding: Uint8Array
+  }>) {
+    store.add(row.id, row.path, decodeEmbedding(row.embedding))
+  }
+  stores.set(dbPath, { store, dataVersion })
+  return store
+}
+
+/** Returns the store only if it is already loaded, so the indexer never pays for a load it does not need. */
+export function getLoadedVectorStore(dbPath: string) {
+  return stores.get(dbPath)?.store
+}
+
+export function dropVectorStore(dbPath: string) {
+  stores.delete(dbPath)
+}
@@ -0,0 +1,31 @@
+/**
+ * Token estimation shared by the chunkers.
+ * Approximates subword tokenizers closely enough to keep every embedded window inside the model limit.
+ */
+
+// Room for the [CLS]/[SEP] style tokens models add around every input
+const RESERVED_TOKENS = 8
+const MIN_WINDOW_TOKENS = 16
+const TOKEN_PATTERN = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]|[\p{L}\p{N}]+|[^\s\p{L}\p{N}]/gu
+
+/**
+ * Upper-bound estimate of how many subword tokens a model's tokenizer produces.
+ * Long words split into several pieces, punctuation and CJK characters are a token each.
+ */
+export function estimateTokens(text: string) {
+  let tokens = 0
+  for (const match of text.matchAll(TOKEN_PATTERN)) {
+    tokens += Math.ceil(match[0].length / 5)
+  }
+  return tokens
+}
+
+/** Tokens a line costs inside a window, counting its newline. */
+export function lineTokens(line: string) {
+  return estimateTokens(line) + 1
+}
+
+/** Tokens left for file lines in one window after the model's own tokens and any prefix. */
+export function windowBudget(maxTokens: number, prefix = "") {
+  return Math.max(MIN_WINDOW_TOKENS, maxTokens - RESERVED_TOKENS - estimateTokens(prefix))
+}
@@ -0,0 +1,44 @@
+/**
+ * Live re-indexing for the semantic index.
+ * Collects changed paths from OpenCode's file watcher events and chat_* edits, debounces them,
+ * and re-embeds them in one serialized pass so search stays current mid-session.
+ */
+import * as path from "path"
+import { indexPaths, isSkippedPath } from "./index.js"
+import type { SemanticConfig } from "./config.js"
+
+const DEBOUNCE_MS = 1000
+
+export function createIndexQueue(worktree: string, config: SemanticConfig, debounceMs = DEBOUNCE_MS) {
+  const pending = new Set<string>()
+  let timer: ReturnType<typeof setTimeout> | undefined
+  let running: Promise<unknown> = Promise.resolve()
+
+  const flush = () => {
+    clearTimeout(timer)
+    timer = undefined
+    const paths = [...pending]
+    pending.clear()
+    if (paths.length === 0) return running
+    // Serialize passes; a failed pass leaves files stale until the next edit or startup scan
+    running = running.then(() => indexPaths(worktree, paths, config)).catch(() => undefined)
+    return running
+  }
+
+  const enqueue = (paths: string[]) => {
+    for (const filePath of paths) {
+      const absPath = path.resolve(worktree, filePath)
+      if (isSkippedPath(worktree, absPath, config)) continue
+      pending.add(absPath)
+    }
+    if (pending.size === 0) return
+    clearTimeout(timer)
+    timer = setTimeout(flush, debounceMs)
+  }
+
+  const dispose = () => {
+    clearTimeout(timer)
+  }
+
+  return { enqueue, flush, dispose }
+}
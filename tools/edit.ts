@@ -7,9 +7,10 @@ import * as fs from "fs/promises"
 import path from "path"
 import { tool } from "@opencode-ai/plugin"
 import { resolvePath } from "../util/paths.js"
+import type { FilesChanged } from "../util/types.js"
 import { replaceOnce } from "../util/text.js"
 
-export function createChatEdit(baseDir: string, repoRoot: string) {
+export function createChatEdit(baseDir: string, repoRoot: string, onFilesChanged?: FilesChanged) {
   const run = async (args: { filePath: string; oldString: string; newString: string; replaceAll?: boolean }) => {
     const filePath = resolvePath(baseDir, args.filePath)
     const content = await fs.readFile(filePath, "utf-8").catch(() => {
@@ -17,6 +18,7 @@ export function createChatEdit(baseDir: string, repoRoot: string) {
     })
     const updated = replaceOnce(content, args.oldString, args.newString, args.replaceAll)
     await fs.writeFile(filePath, updated, "utf-8")
+    onFilesChanged?.([filePath])
     const title = path.relative(repoRoot, filePath)
     return `Updated ${title}`
   }
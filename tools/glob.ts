@@ -5,14 +5,17 @@
  */
 import { tool } from "@opencode-ai/plugin"
 import { resolvePath } from "../util/paths.js"
+import { createIgnoreMatcher } from "../util/ignore.js"
 
 export function createChatGlob(baseDir: string) {
   const run = async (args: { pattern: string; path?: string }) => {
     const searchRoot = resolvePath(baseDir, args.path ?? baseDir)
     const glob = new Bun.Glob(args.pattern)
+    const ignore = createIgnoreMatcher(baseDir)
     const files: Array<{ path: string; mtime: number }> = []
     let truncated = false
     for await (const file of glob.scan({ cwd: searchRoot, absolute: true, onlyFiles: true })) {
+      if (await ignore.isIgnored(file)) continue
       if (files.length >= 100) {
         truncated = true
         break
@@ -42,6 +45,7 @@ export function createChatGlob(baseDir: string) {
 Usage:
 - Supports glob patterns like "**/*.txt" or "notes/**/*.md"
 - Returns files sorted by modification time
+- Skips files excluded by .gitignore, .ignore and .opencode/chat/ignore
 - Results truncated at 100 files`,
       args: {
         pattern: tool.schema.string().describe("The glob pattern to match files against"),
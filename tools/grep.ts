@@ -8,6 +8,7 @@ import { tool } from "@opencode-ai/plugin"
 import { MAX_GREP_MATCHES } from "../util/constants.js"
 import { resolvePath, isBinaryFile } from "../util/paths.js"
 import { trimLine } from "../util/text.js"
+import { createIgnoreMatcher } from "../util/ignore.js"
 import type { Match } from "../util/types.js"
 
 function formatMatches(matches: Match[], truncated: boolean) {
@@ -41,10 +42,12 @@ export function createChatGrep(baseDir: string) {
     }
     const globPattern = args.include ?? "**/*"
     const glob = new Bun.Glob(globPattern)
+    const ignore = createIgnoreMatcher(baseDir)
     const matches: Match[] = []
 
     for await (const file of glob.scan({ cwd: searchRoot, absolute: true, onlyFiles: true })) {
       if (matches.length >= MAX_GREP_MATCHES) break
+      if (await ignore.isIgnored(file)) continue
       if (await isBinaryFile(file)) continue
       const content = await fs.readFile(file, "utf-8").catch(() => "")
       if (!content) continue
@@ -76,6 +79,7 @@ export function createChatGrep(baseDir: string) {
 Usage:
 - Supports full regex syntax
 - Filter files by pattern with include parameter
+- Skips files excluded by .gitignore, .ignore and .opencode/chat/ignore
 - Returns files sorted by modification time
 - Results truncated at 100 matches`,
       args: {
@@ -13,19 +13,35 @@ import { createChatBatch } from "./batch"
 import { createChatSkill } from "./skill"
 import { createChatRemember } from "./remember"
 import { createChatSemanticSearch } from "./semantic-search"
+import { createChatSemanticSimilar } from "./semantic-similar"
+import { createChatSemanticIndex } from "./semantic-index"
+import { createChatSemanticStatus } from "./semantic-status"
+import { createChatLinks } from "./links"
 import type { ToolDefinition } from "@opencode-ai/plugin"
+import type { FilesChanged } from "../util/types"
+import type { SemanticConfig } from "../semantic/config"
 
-export function createChatTools(baseDir: string, repoRoot: string, todoPath: string) {
+type SemanticOptions = {
+  config?: SemanticConfig
+  onFilesChanged?: FilesChanged
+}
+
+export function createChatTools(baseDir: string, repoRoot: string, todoPath: string, semantic: SemanticOptions = {}) {
+  const { onFilesChanged } = semantic
   const read = createChatRead(baseDir)
-  const edit = createChatEdit(baseDir, repoRoot)
-  const write = createChatWrite(baseDir, repoRoot)
+  const edit = createChatEdit(baseDir, repoRoot, onFilesChanged)
+  const write = createChatWrite(baseDir, repoRoot, onFilesChanged)
   const glob = createChatGlob(baseDir)
   const grep = createChatGrep(baseDir)
   const bash = createChatBash(baseDir)
   const todo = createChatTodo(todoPath)
   const skill = createChatSkill(baseDir)
   const remember = createChatRemember(baseDir)
-  const semantic = createChatSemanticSearch(repoRoot)
+  const semanticSearch = createChatSemanticSearch(repoRoot, semantic.config)
+  const semanticSimilar = createChatSemanticSimilar(repoRoot, semantic.config)
+  const semanticIndex = createChatSemanticIndex(repoRoot, semantic.config)
+  const semanticStatus = createChatSemanticStatus(repoRoot)
+  const links = createChatLinks(repoRoot, semantic.config)
 
   const runners: Record<string, (p: Record<string, unknown>) => Promise<string>> = {
     [read.id]: (p) => read.run(p as Parameters<typeof read.run>[0]),
@@ -37,7 +53,11 @@ export function createChatTools(baseDir: string, repoRoot: string, todoPath: str
     [todo.write.id]: (p) => todo.write.run(p as Parameters<typeof todo.write.run>[0]),
     [skill.id]: (p) => skill.run(p as Parameters<typeof skill.run>[0]),
     [remember.id]: (p) => remember.run(p as Parameters<typeof remember.run>[0]),
-    [semantic.id]: (p) => semantic.run(p as Parameters<typeof semantic.run>[0]),
+    [semanticSearch.id]: (p) => semanticSearch.run(p as Parameters<typeof semanticSearch.run>[0]),
+    [semanticSimilar.id]: (p) => semanticSimilar.run(p as Parameters<typeof semanticSimilar.run>[0]),
+    [semanticIndex.id]: (p) => semanticIndex.run(p as Parameters<typeof semanticIndex.run>[0]),
+    [semanticStatus.id]: () => semanticStatus.run(),
+    [links.id]: (p) => links.run(p as Parameters<typeof links.run>[0]),
   }
 
   const batch = createChatBatch(runners, todo.read.run)
@@ -53,7 +73,11 @@ export function createChatTools(baseDir: string, repoRoot: string, todoPath: str
     [todo.read.id]: todo.read.tool,
     [skill.id]: skill.tool,
     [remember.id]: remember.tool,
-    [semantic.id]: semantic.tool,
+    [semanticSearch.id]: semanticSearch.tool,
+    [semanticSimilar.id]: semanticSimilar.tool,
+    [semanticIndex.id]: semanticIndex.tool,
+    [semanticStatus.id]: semanticStatus.tool,
+    [links.id]: links.tool,
     [batch.id]: batch.tool,
   }
 
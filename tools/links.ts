@@ -0,0 +1,91 @@
+/**
+ * chat_links tool implementation.
+ * Navigates a markdown vault by its links: outgoing links, backlinks, unresolved links and orphans.
+ */
+import * as path from "path"
+import { tool } from "@opencode-ai/plugin"
+import { loadSemanticConfig, type SemanticConfig } from "../semantic/config.js"
+import { buildLinkGraph, type ResolvedLink } from "../util/links.js"
+
+const DEFAULT_LIMIT = 50
+
+function describeLink(link: ResolvedLink) {
+  const target = link.resolved ? ` -> ${link.resolved}` : ""
+  return `${link.raw}${target}${link.embed ? " (embed)" : ""}`
+}
+
+function limited<T>(items: T[], limit: number, render: (item: T) => string) {
+  const lines = items.slice(0, limit).map((item) => `  ${render(item)}`)
+  if (items.length > limit) lines.push(`  ... and ${items.length - limit} more`)
+  return lines
+}
+
+export function createChatLinks(worktree: string, config?: SemanticConfig) {
+  const run = async (args: { note?: string; limit?: number }) => {
+    const limit = Math.max(1, Math.min(args.limit ?? DEFAULT_LIMIT, 500))
+    const { skipDirs } = config ?? (await loadSemanticConfig(worktree))
+    const graph = await buildLinkGraph(worktree, skipDirs)
+    if (graph.notes.length === 0) return "No markdown notes found."
+
+    if (!args.note) {
+      const unresolved = [...graph.unresolved().entries()].sort((a, b) => b[1].length - a[1].length)
+      const orphans = graph.orphans()
+      let links = 0
+      for (const list of graph.outgoing.values()) links += list.length
+      return [
+        `Notes: ${graph.notes.length}, links: ${links}, unresolved targets: ${unresolved.length}, orphans: ${orphans.length}`,
+        ...(unresolved.length > 0 ? ["Unresolved links (target: sources):"] : []),
+        ...limited(unresolved, limit, ([target, sources]) => {
+          const where = sources.map(({ source, link }) => `${source}:${link.line}`)
+          return `${target} (${sources.length}): ${where.slice(0, 5).join(", ")}${where.length > 5 ? ", ..." : ""}`
+        }),
+        ...(orphans.length > 0 ? ["Orphan notes (nothing links to them):"] : []),
+        ...limited(orphans, limit, (relPath) => relPath),
+      ].join("\n")
+    }
+
+    const asPath = path.relative(worktree, path.resolve(worktree, args.note)).split(path.sep).join("/")
+    const note = graph.resolve(asPath) ?? graph.resolve(args.note)
+    if (!note || !graph.outgoing.has(note)) return `Note not found: ${args.note}`
+
+    const outgoing = graph.outgoing.get(note) ?? []
+    const resolved = outgoing.filter((link) => link.resolved)
+    const unresolved = outgoing.filter((link) => !link.resolved)
+    const backlinks = graph.backlinks.get(note) ?? []
+    const lines = [`Note: ${note}`]
+    lines.push(`Outgoing links (${resolved.length}):`, ...limited(resolved, limit, (link) => `${link.line}: ${describeLink(link)}`))
+    if (unresolved.length > 0) {
+      lines.push(`Unresolved links (${unresolved.length}):`, ...limited(unresolved, limit, (link) => `${link.line}: ${link.raw}`))
+    }
+    if (backlinks.length === 0) {
+      lines.push("Backlinks: none (orphan note)")
+    } else {
+      lines.push(
+        `Backlinks (${backlinks.length}):`,
+        ...limited(backlinks, limit, ({ source, link }) => `${source}:${link.line} ${link.raw}${link.embed ? " (embed)" : ""}`),
+      )
+    }
+    return lines.join("\n")
+  }
+
+  return {
+    id: "chat_links",
+    run,
+    tool: tool({
+      description: `Navigate markdown notes by their links, Obsidian style.
+
+Usage:
+- With note (path, note name or alias): its outgoing links, unresolved links, and backlinks with line numbers
+- Without note: vault-wide unresolved links grouped by target, and orphan notes nothing links to
+- Understands [[wikilinks]], [[note#heading|alias]], ![[embeds]], frontmatter aliases and relative [text](note.md) links
+- Skips the same ignored files and directories as the semantic index`,
+      args: {
+        note: tool.schema.string().optional().describe('Note to inspect, e.g. "Projects/Roadmap.md" or "Roadmap"'),
+        limit: tool.schema.number().optional().describe("Maximum entries per list (default 50)"),
+      },
+      async execute(args) {
+        return await run(args)
+      },
+    }),
+  }
+}
@@ -7,7 +7,7 @@ import * as fs from "fs/promises"
 import { tool } from "@opencode-ai/plugin"
 import { DEFAULT_READ_LIMIT } from "../util/constants.js"
 import { resolvePath, isBlockedEnvPath, isImageExtension, isBinaryFile } from "../util/paths.js"
-import { trimLine } from "../util/text.js"
+import { numberLines } from "../util/text.js"
 
 export function createChatRead(baseDir: string) {
   const run = async (args: { filePath: string; offset?: number; limit?: number }) => {
@@ -31,8 +31,7 @@ export function createChatRead(baseDir: string) {
     const offset = args.offset ?? 0
     const limit = args.limit ?? DEFAULT_READ_LIMIT
     const lines = await fs.readFile(filePath, "utf-8").then((content) => content.split("\n"))
-    const raw = lines.slice(offset, offset + limit).map(trimLine)
-    const content = raw.map((line, index) => `${(index + offset + 1).toString().padStart(5, "0")}| ${line}`)
+    const content = numberLines(lines.slice(offset, offset + limit), offset + 1)
 
     let output = "<file>\n"
     output += content.join("\n")
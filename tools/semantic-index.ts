@@ -0,0 +1,80 @@
+/**
+ * chat_semantic_index tool implementation.
+ * Builds or refreshes the semantic index from inside a session, within a time budget
+ * so large trees are indexed over several calls instead of one that times out.
+ */
+import { tool } from "@opencode-ai/plugin"
+import { ensureSemanticIndex, getIndexJob, describeIndexJob } from "../semantic/index.js"
+import type { SemanticConfig } from "../semantic/config.js"
+import { resolvePath } from "../util/paths.js"
+
+const DEFAULT_BUDGET_SECONDS = 60
+const MAX_BUDGET_SECONDS = 600
+
+export function createChatSemanticIndex(worktree: string, config?: SemanticConfig) {
+  const run = async (args: { mode?: "changed" | "full"; path?: string; timeBudget?: number }) => {
+    const job = getIndexJob(worktree)
+    if (job?.state === "running") {
+      return `${describeIndexJob(job)}\nBackground indexing is already running; search again once it finishes.`
+    }
+
+    const scope = args.path ? resolvePath(worktree, args.path) : undefined
+    const budget = Math.max(1, Math.min(args.timeBudget ?? DEFAULT_BUDGET_SECONDS, MAX_BUDGET_SECONDS))
+    const started = Date.now()
+    const result = await ensureSemanticIndex(worktree, {
+      mode: args.mode ?? "changed",
+      config,
+      scope,
+      sliceSize: config?.sliceSize,
+      signal: AbortSignal.timeout(budget * 1000),
+    })
+    const seconds = ((Date.now() - started) / 1000).toFixed(1)
+
+    const lines = [
+      `Semantic index ${result.mode === "full" ? "rebuilt" : "updated"}${args.path ? ` for ${args.path}` : ""} in ${seconds}s.`,
+    ]
+    if (result.rebuildReason) lines.push(`Rebuilt from scratch: ${result.rebuildReason}.`)
+    lines.push(
+      `Indexed ${result.indexed} of ${result.total} changed files (${result.chunks} chunks, ${result.reused} reused); ${result.skipped} unchanged; ${result.removed} removed.`,
+    )
+    if (result.interrupted === "model") {
+      lines.push(
+        "Time budget reached while the embedding model was still loading; it keeps loading, so call chat_semantic_index again shortly.",
+      )
+    } else if (result.interrupted === "scanning") {
+      lines.push(
+        `Time budget reached before the scan for changed files finished; nothing was removed. Call chat_semantic_index again with mode "changed" to continue.`,
+      )
+    } else if (result.remaining > 0) {
+      lines.push(
+        `Time budget reached with ${result.remaining} files left. Call chat_semantic_index again with mode "changed" to continue.`,
+      )
+    }
+    return lines.join("\n")
+  }
+
+  return {
+    id: "chat_semantic_index",
+    run,
+    tool: tool({
+      description: `Build or refresh the semantic index used by chat_semantic_search.
+
+Usage:
+- Default mode "changed" only re-embeds new or edited files and drops deleted ones
+- Mode "full" discards the index (or the part under path) and rebuilds it
+- Stops after timeBudget seconds; progress is kept, so call again to finish large trees
+- Rarely needed: the index builds itself in the background and follows edits`,
+      args: {
+        mode: tool.schema.enum(["changed", "full"]).optional().describe('Index mode (default "changed")'),
+        path: tool.schema.string().optional().describe("Only index this file or the files under this directory"),
+        timeBudget: tool.schema
+          .number()
+          .optional()
+          .describe(`Seconds to spend before returning (default ${DEFAULT_BUDGET_SECONDS}, max ${MAX_BUDGET_SECONDS})`),
+      },
+      async execute(args) {
+        return await run(args)
+      },
+    }),
+  }
+}
@@ -2,39 +2,50 @@
  * chat_semantic_search tool implementation.
  * Searches repo content using local embeddings stored in SQLite.
  */
-import * as path from "path"
 import { tool } from "@opencode-ai/plugin"
-import { semanticSearch } from "../semantic/index.js"
+import {
+  semanticSearch,
+  loadSemanticConfig,
+  checkSemanticIndex,
+  formatSearchResults,
+  describeFilters,
+  MERGE_FETCH_FACTOR,
+  type SearchFilters,
+  type SearchMode,
+} from "../semantic/index.js"
+import type { SemanticConfig } from "../semantic/config.js"
+import { getEmbedder } from "../semantic/embedder.js"
 
 const DEFAULT_LIMIT = 5
 
-export function createChatSemanticSearch(worktree: string) {
-  const run = async (args: { query: string; limit?: number }) => {
+export function createChatSemanticSearch(worktree: string, config?: SemanticConfig) {
+  const run = async (args: { query: string; limit?: number; mode?: SearchMode; context?: number } & SearchFilters) => {
     const query = args.query.trim()
     if (!query) throw new Error("Query cannot be empty")
 
-    const dbPath = path.join(worktree, ".opencode", "chat", "semantic.sqlite")
-    const exists = await Bun.file(dbPath).exists()
-    if (!exists) {
-      return "Semantic index not found. Run chat_semantic_index first."
-    }
+    const { job, notice, unavailable } = await checkSemanticIndex(worktree)
+    if (unavailable) return unavailable
 
     const limit = Math.max(1, Math.min(args.limit ?? DEFAULT_LIMIT, 20))
-    const results = await semanticSearch(worktree, query, limit)
-
-    if (results.length === 0) return "No semantic matches found."
-
-    return results
-      .map((item, index) => {
-        const relPath = path.relative(worktree, item.path)
-        const snippet = item.content.trim().slice(0, 400)
-        return [
-          `${index + 1}. ${relPath}:${item.start_line}-${item.end_line}`,
-          `score: ${item.score.toFixed(3)}`,
-          snippet,
-        ].join("\n")
-      })
-      .join("\n\n")
+    // Without a model yet, keyword ranking is the only thing that can answer
+    const mode = job?.state === "running" && job.phase === "model" ? "lexical" : args.mode
+    const filters: SearchFilters = {
+      path: args.path,
+      include: args.include,
+      exclude: args.exclude,
+      extensions: args.extensions,
+      minScore: args.minScore,
+    }
+    const results = await semanticSearch(worktree, query, { limit: limit * MERGE_FETCH_FACTOR, mode, config, filters })
+    const header = [notice, describeFilters(filters)].filter(Boolean).join("\n")
+
+    if (results.length === 0) return [header, "No semantic matches found."].filter(Boolean).join("\n\n")
+
+    // Lexical results have literal matches to anchor on; only meaning-based ones may need the model
+    const model =
+      mode === "lexical" ? undefined : await getEmbedder(worktree, (config ?? (await loadSemanticConfig(worktree))).embedding)
+    const output = await formatSearchResults(worktree, results, { limit, context: args.context, query, model })
+    return header ? `${header}\n\n${output}` : output
   }
 
   return {
@@ -45,11 +56,26 @@ export function createChatSemanticSearch(worktree: string) {
 
 Usage:
 - Best for natural language queries ("where is that explained")
-- Returns file + line ranges + snippet
-- Indexing is incremental based on file mtime`,
+- Default hybrid mode also matches exact identifiers, error codes and file names
+- Use mode "lexical" for exact terms only, "semantic" for meaning only
+- Narrow with path, include/exclude globs (relative to the project root) and extensions
+- Returns file + line ranges + numbered lines; neighbouring hits in a file are merged
+- Each long hit gets a focus range (lines marked ">") to pass straight to chat_read
+- Use context to include surrounding lines
+- Indexing is incremental based on file content hashes`,
       args: {
         query: tool.schema.string().describe("Natural language search query"),
         limit: tool.schema.number().optional().describe("Number of results (default 5, max 20)"),
+        mode: tool.schema
+          .enum(["semantic", "lexical", "hybrid"])
+          .optional()
+          .describe("Ranking mode: semantic, lexical, or hybrid (default hybrid)"),
+        context: tool.schema.number().optional().describe("Extra lines to show around each hit (default 0, max 20)"),
+        path: tool.schema.string().optional().describe("Only search files under this directory"),
+        include: tool.schema.array(tool.schema.string()).optional().describe('Globs a file must match, e.g. "src/**/*.ts"'),
+        exclude: tool.schema.array(tool.schema.string()).optional().describe('Globs to skip, e.g. "docs/**"'),
+        extensions: tool.schema.array(tool.schema.string()).optional().describe('File extensions to keep, e.g. [".ts", ".py"]'),
+        minScore: tool.schema.number().optional().describe("Drop results scoring below this"),
       },
       async execute(args) {
         return await run(args)
@@ -0,0 +1,84 @@
+/**
+ * chat_semantic_similar tool implementation.
+ * Finds code and text in other files that resembles a given file or line range.
+ */
+import * as path from "path"
+import { tool } from "@opencode-ai/plugin"
+import {
+  similarSearch,
+  checkSemanticIndex,
+  formatSearchResults,
+  describeFilters,
+  MERGE_FETCH_FACTOR,
+  type SearchFilters,
+} from "../semantic/index.js"
+import type { SemanticConfig } from "../semantic/config.js"
+import { resolvePath } from "../util/paths.js"
+
+const DEFAULT_LIMIT = 5
+
+export function createChatSemanticSimilar(worktree: string, config?: SemanticConfig) {
+  const run = async (
+    args: { filePath: string; startLine?: number; endLine?: number; limit?: number; context?: number } & Omit<
+      SearchFilters,
+      "path"
+    >,
+  ) => {
+    const filePath = resolvePath(worktree, args.filePath)
+    const { job, notice, unavailable } = await checkSemanticIndex(worktree)
+    if (unavailable) return unavailable
+    if (job?.state === "running" && job.phase === "model") {
+      return notice as string
+    }
+
+    const limit = Math.max(1, Math.min(args.limit ?? DEFAULT_LIMIT, 20))
+    const filters: Omit<SearchFilters, "path"> = {
+      include: args.include,
+      exclude: args.exclude,
+      extensions: args.extensions,
+      minScore: args.minScore,
+    }
+    const results = await similarSearch(worktree, filePath, {
+      limit: limit * MERGE_FETCH_FACTOR,
+      startLine: args.startLine,
+      endLine: args.endLine,
+      filters,
+      config,
+    })
+    const range = args.startLine || args.endLine ? `:${args.startLine ?? 1}-${args.endLine ?? "end"}` : ""
+    const header = [notice, `Similar to ${path.relative(worktree, filePath)}${range}`, describeFilters(filters)]
+      .filter(Boolean)
+      .join("\n")
+
+    if (results.length === 0) return `${header}\n\nNo similar chunks found in other files.`
+    return `${header}\n\n${await formatSearchResults(worktree, results, { limit, context: args.context })}`
+  }
+
+  return {
+    id: "chat_semantic_similar",
+    run,
+    tool: tool({
+      description: `Find code or text in other files similar to a file or line range.
+
+Usage:
+- Best for "show me other code like this function"
+- Give filePath plus optional startLine/endLine (1-based, inclusive)
+- Results never include the source file itself
+- Narrow with include/exclude globs (relative to the project root) and extensions`,
+      args: {
+        filePath: tool.schema.string().describe("File to compare against"),
+        startLine: tool.schema.number().optional().describe("First line of the range (default 1)"),
+        endLine: tool.schema.number().optional().describe("Last line of the range (default end of file)"),
+        limit: tool.schema.number().optional().describe("Number of results (default 5, max 20)"),
+        context: tool.schema.number().optional().describe("Extra lines to show around each hit (default 0, max 20)"),
+        include: tool.schema.array(tool.schema.string()).optional().describe('Globs a file must match, e.g. "src/**/*.ts"'),
+        exclude: tool.schema.array(tool.schema.string()).optional().describe('Globs to skip, e.g. "docs/**"'),
+        extensions: tool.schema.array(tool.schema.string()).optional().describe('File extensions to keep, e.g. [".ts", ".py"]'),
+        minScore: tool.schema.number().optional().describe("Drop results scoring below this"),
+      },
+      async execute(args) {
+        return await run(args)
+      },
+    }),
+  }
+}
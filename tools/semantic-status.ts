@@ -0,0 +1,33 @@
+/**
+ * chat_semantic_status tool implementation.
+ * Reports how complete and current the semantic index is.
+ */
+import { tool } from "@opencode-ai/plugin"
+import { getIndexStatus, formatIndexStatus, checkSemanticIndex } from "../semantic/index.js"
+
+export function createChatSemanticStatus(worktree: string) {
+  const run = async () => {
+    const { notice, unavailable } = await checkSemanticIndex(worktree)
+    if (unavailable) return unavailable
+    const report = formatIndexStatus(worktree, await getIndexStatus(worktree))
+    return notice ? `${notice}\n\n${report}` : report
+  }
+
+  return {
+    id: "chat_semantic_status",
+    run,
+    tool: tool({
+      description: `Report the health of the semantic index.
+
+Usage:
+- Shows file and chunk counts (total and per extension), database size, model and last indexing time
+- Counts files changed or deleted since they were indexed
+- Lists files the indexer skipped for being too large or producing too many chunks
+- Run chat_semantic_index when many files are stale`,
+      args: {},
+      async execute() {
+        return await run()
+      },
+    }),
+  }
+}
@@ -7,12 +7,14 @@ import * as fs from "fs/promises"
 import path from "path"
 import { tool } from "@opencode-ai/plugin"
 import { resolvePath } from "../util/paths.js"
+import type { FilesChanged } from "../util/types.js"
 
-export function createChatWrite(baseDir: string, repoRoot: string) {
+export function createChatWrite(baseDir: string, repoRoot: string, onFilesChanged?: FilesChanged) {
   const run = async (args: { content: string; filePath: string }) => {
     const filePath = resolvePath(baseDir, args.filePath)
     await fs.mkdir(path.dirname(filePath), { recursive: true })
     await fs.writeFile(filePath, args.content, "utf-8")
+    onFilesChanged?.([filePath])
     const title = path.relative(repoRoot, filePath)
     return `Wrote ${title}`
   }
@@ -0,0 +1,187 @@
+/**
+ * Gitignore-style path filtering shared by the semantic indexer and search tools.
+ * Reads .gitignore and .ignore in every directory plus the plugin's .opencode/chat/ignore,
+ * with git semantics: deeper files override shallower ones, last match wins, "!" re-includes.
+ */
+import * as fs from "fs/promises"
+import path from "path"
+
+const IGNORE_FILENAMES = [".gitignore", ".ignore"]
+const PLUGIN_IGNORE_PATH = path.join(".opencode", "chat", "ignore")
+
+type IgnoreRule = {
+  regex: RegExp
+  negate: boolean
+  dirOnly: boolean
+}
+
+export type IgnoreMatcher = ReturnType<typeof createIgnoreMatcher>
+
+function escapeRegex(char: string) {
+  return char.replace(/[.*+?^${}()|[\]\\/]/g, "\\$&")
+}
+
+function patternToRegex(pattern: string) {
+  // A slash anywhere but the end anchors the pattern to the ignore file's directory
+  const anchored = pattern.includes("/")
+  const body = pattern.startsWith("/") ? pattern.slice(1) : pattern
+  let out = ""
+
+  for (let i = 0; i < body.length; i++) {
+    const char = body[i]
+    if (char === "*") {
+      const atStart = i === 0 || body[i - 1] === "/"
+      const atEnd = i + 2 === body.length || body[i + 2] === "/"
+      if (body[i + 1] === "*" && atStart && atEnd) {
+        if (i + 2 === body.length) {
+          out += ".*"
+          i += 1
+        } else {
+          out += "(?:.*/)?"
+          i += 2
+        }
+        continue
+      }
+      out += "[^/]*"
+      while (body[i + 1] === "*") i++
+      continue
+    }
+    if (char === "?") {
+      out += "[^/]"
+      continue
+    }
+    if (char === "\\" && i + 1 < body.length) {
+      out += escapeRegex(body[i + 1])
+      i++
+      continue
+    }
+    if (char === "[") {
+      const close = body.indexOf("]", i + 2)
+      if (close !== -1) {
+        const range = body.slice(i + 1, close).replace(/\\/g, "\\\\")
+        out += range.startsWith("!") ? `[^${range.slice(1)}]` : `[${range}]`
+        i = close
+        continue
+      }
+    }
+    out += escapeRegex(char)
+  }
+
+  return new RegExp((anchored ? "^" : "^(?:.*/)?") + out + "$")
+}
+
+export function parseIgnoreFile(content: string) {
+  const rules: IgnoreRule[] = []
+  for (const raw of content.split(/\r?\n/)) {
+    let line = raw.replace(/(?<!\\)\s+$/, "")
+    if (!line || line.startsWith("#")) continue
+
+    let negate = false
+    if (line.startsWith("!")) {
+      negate = true
+      line = line.slice(1)
+    } else if (line.startsWith("\\!") || line.startsWith("\\#")) {
+      line = line.slice(1)
+    }
+
+    const dirOnly = line.endsWith("/")
+    if (dirOnly) line = line.slice(0, -1)
+    if (!line) continue
+
+    rules.push({ regex: patternToRegex(line), negate, dirOnly })
+  }
+  return rules
+}
+
+async function readRules(filePath: string) {
+  const content = await fs.readFile(filePath, "utf-8").catch(() => "")
+  return parseIgnoreFile(content)
+}
+
+export function createIgnoreMatcher(root: string) {
+  const rulesByDir = new Map<string, Promise<IgnoreRule[]>>()
+  const ignoredDirs = new Map<string, Promise<boolean>>()
+
+  const loadRules = (relDir: string) => {
+    const cached = rulesByDir.get(relDir)
+    if (cached) return cached
+    const dir = path.join(root, relDir)
+    const files = IGNORE_FILENAMES.map((name) => path.join(dir, name))
+    // The plugin file is read last so it overrides the repo's own ignore files
+    if (relDir === "") files.push(path.join(root, PLUGIN_IGNORE_PATH))
+    const loaded = Promise.all(files.map(readRules)).then((lists) => lists.flat())
+    rulesByDir.set(relDir, loaded)
+    return loaded
+  }
+
+  const matches = async (relPath: string, isDir: boolean) => {
+    const segments = relPath.split("/")
+    let ignored = false
+    for (let depth = 0; depth < segments.length; depth++) {
+      const rules = await loadRules(segments.slice(0, depth).join("/"))
+      const target = segments.slice(depth).join("/")
+      for (const rule of rules) {
+        if (rule.dirOnly && !isDir) continue
+        if (rule.regex.test(target)) ignored = !rule.negate
+      }
+    }
+    return ignored
+  }
+
+  // Like git, nothing inside an ignored directory can be re-included
+  const isDirIgnored = (relDir: string): Promise<boolean> => {
+    const cached = ignoredDirs.get(relDir)
+    if (cached) return cached
+    const parent = path.posix.dirname(relDir)
+    const result = (parent === "." ? Promise.resolve(false) : isDirIgnored(parent)).then(
+      (parentIgnored) => parentIgnored || matches(relDir, true),
+    )
+    ignoredDirs.set(relDir, result)
+    return result
+  }
+
+  const isIgnored = async (absPath: string, isDir = false) => {
+    const relPath = path.relative(root, absPath).split(path.sep).join("/")
+    if (!relPath || relPath.startsWith("..")) return false
+    if (isDir) return isDirIgnored(relPath)
+    const parent = path.posix.dirname(relPath)
+    if (parent !== "." && (await isDirIgnored(parent))) return true
+    return matches(relPath, false)
+  }
+
+  return { isIgnored }
+}
+
+/**
+ * Walks regular files under root (or only under `startDir`, relative to root), yielding
+ * forward-slash paths relative to root.
+ * Prunes skipped directory names and anything the matcher ignores without descending into it.
+ * Stops early once `signal` aborts; callers check it to tell a partial walk from a full one.
+ */
+export async function* walkFiles(
+  root: string,
+  matcher: IgnoreMatcher,
+  skipDirs: string[] = [],
+  startDir = "",
+  signal?: AbortSignal,
+): AsyncGenerator<string> {
+  const skip = new Set(skipDirs)
+  const pending = [startDir]
+  while (pending.length > 0) {
+    const relDir = pending.pop() as string
+    const entries = await fs.readdir(path.join(root, relDir), { withFileTypes: true }).catch(() => [])
+    for (const entry of entries) {
+      if (signal?.aborted) return
+      const relPath = relDir ? `${relDir}/${entry.name}` : entry.name
+      const absPath = path.join(root, relPath)
+      if (entry.isDirectory()) {
+        if (skip.has(entry.name) || (await matcher.isIgnored(absPath, true))) continue
+        pending.push(relPath)
+        continue
+      }
+      if (!entry.isFile()) continue
+      if (await matcher.isIgnored(absPath)) continue
+      yield relPath
+    }
+  }
+}
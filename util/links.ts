@@ -0,0 +1,226 @@
+/**
+ * Link graph over markdown notes.
+ * Parses [[wikilinks]], ![[embeds]] and relative [text](note.md) links and resolves them the way
+ * Obsidian does: by path, then by file name, then by frontmatter alias.
+ */
+import * as path from "path"
+import * as fs from "fs/promises"
+import { createIgnoreMatcher, walkFiles } from "./ignore"
+import { createFenceTracker } from "./text"
+
+const NOTE_EXTENSIONS = new Set([".md", ".mdx"])
+const WIKILINK_PATTERN = /(!?)\[\[([^\]|#^]*)(?:[#^]([^\]|]*))?(?:\|([^\]]*))?\]\]/g
+const MARKDOWN_LINK_PATTERN = /(!?)\[([^\]]*)\]\(<?([^)\s>]+)>?(?:\s+"[^"]*")?\)/g
+
+export type NoteLink = {
+  // As written, without heading or block reference
+  target: string
+  heading?: string
+  alias?: string
+  embed: boolean
+  wiki: boolean
+  // 1-based line of the link in its note
+  line: number
+  raw: string
+}
+
+export type ResolvedLink = NoteLink & {
+  // Worktree-relative path of the linked note or attachment, when it exists
+  resolved?: string
+}
+
+type ParsedNote = { mtimeMs: number; links: NoteLink[]; aliases: string[] }
+
+// Parsed notes by absolute path, reused while their mtime is unchanged
+const parsedNotes = new Map<string, ParsedNote>()
+
+function readAliases(lines: string[]) {
+  if (lines[0] !== "---") return []
+  const aliases: string[] = []
+  let inList = false
+  for (let i = 1; i < lines.length && lines[i] !== "---"; i++) {
+    const line = lines[i]
+    const field = /^(aliases|alias):\s*(.*)$/.exec(line)
+    if (field) {
+      const value = field[2].trim()
+      inList = value === ""
+      if (!inList) aliases.push(...value.replace(/^\[|\]$/g, "").split(","))
+      continue
+    }
+    const item = inList ? /^\s*-\s+(.+)$/.exec(line) : null
+    if (item) aliases.push(item[1])
+    else inList = false
+  }
+  return aliases.map((alias) => alias.trim().replace(/^(["'])(.*)\1$/, "$2")).filter(Boolean)
+}
+
+// Malformed escapes stay as written rather than dropping the link
+function decodeHref(href: string) {
+  try {
+    return decodeURI(href)
+  } catch {
+    return href
+  }
+}
+
+/** Links and aliases of one note; links inside code fences and inline code are ignored. */
+export function parseNote(text: string) {
+  const lines = text.split("\n")
+  const links: NoteLink[] = []
+  const inFence = createFenceTracker()
+
+  lines.forEach((rawLine, index) => {
+    if (inFence(rawLine)) return
+    const line = rawLine.replace(/`[^`]*`/g, (code) => " ".repeat(code.length))
+
+    for (const match of line.matchAll(WIKILINK_PATTERN)) {
+      const target = match[2].trim()
+      // [[#Heading]] points inside the same note
+      if (!target) continue
+      links.push({
+        target,
+        heading: match[3]?.trim() || undefined,
+        alias: match[4]?.trim() || undefined,
+        embed: match[1] === "!",
+        wiki: true,
+        line: index + 1,
+        raw: match[0],
+      })
+    }
+    for (const match of line.matchAll(MARKDOWN_LINK_PATTERN)) {
+      const [href, heading] = match[3].split("#", 2)
+      // External URLs, mailto: and in-page anchors are not part of the vault
+      if (!href || /^[a-z][\w+.-]*:/i.test(href)) continue
+      links.push({
+        target: decodeHref(href),
+        heading: heading || undefined,
+        alias: match[2] || undefined,
+        embed: match[1] === "!",
+        wiki: false,
+        line: index + 1,
+        raw: match[0],
+      })
+    }
+  })
+
+  return { links, aliases: readAliases(lines) }
+}
+
+function withoutNoteExtension(relPath: string) {
+  const ext = path.posix.extname(relPath)
+  return NOTE_EXTENSIONS.has(ext.toLowerCase()) ? relPath.slice(0, -ext.length) : relPath
+}
+
+function addTo(index: Map<string, string[]>, key: string, relPath: string) {
+  const list = index.get(key) ?? []
+  list.push(relPath)
+  index.set(key, list)
+}
+
+// Several notes can share a name; prefer the one next to the linking note, then the shallowest
+function pickClosest(candidates: string[] | undefined, source: string) {
+  if (!candidates || candidates.length === 0) return undefined
+  const sourceDir = path.posix.dirname(source)
+  const sameDir = candidates.find((candidate) => path.posix.dirname(candidate) === sourceDir)
+  if (sameDir) return sameDir
+  return [...candidates].sort((a, b) => a.split("/").length - b.split("/").length || a.localeCompare(b))[0]
+}
+
+export type LinkGraph = Awaited<ReturnType<typeof buildLinkGraph>>
+
+/**
+ * Walks the worktree like the semantic indexer (same ignore files and skipped directories) and
+ * resolves every link in every markdown note. Paths are worktree-relative with forward slashes.
+ */
+export async function buildLinkGraph(worktree: string, skipDirs: string[]) {
+  const matcher = createIgnoreMatcher(worktree)
+  const files: string[] = []
+  for await (const relPath of walkFiles(worktree, matcher, skipDirs)) files.push(relPath)
+  const notes = files.filter((relPath) => NOTE_EXTENSIONS.has(path.posix.extname(relPath).toLowerCase())).sort()
+
+  // Lowercased lookups: full path, path without note extension, file name, and alias
+  const byPath = new Map<string, string>()
+  const byName = new Map<string, string[]>()
+  const byAlias = new Map<string, string[]>()
+  for (const relPath of files) {
+    byPath.set(relPath.toLowerCase(), relPath)
+    addTo(byName, path.posix.basename(relPath).toLowerCase(), relPath)
+  }
+  for (const relPath of notes) {
+    byPath.set(withoutNoteExtension(relPath).toLowerCase(), relPath)
+    addTo(byName, path.posix.basename(withoutNoteExtension(relPath)).toLowerCase(), relPath)
+  }
+
+  const parsed = new Map<string, ParsedNote>()
+  for (const relPath of notes) {
+    const absPath = path.join(worktree, relPath)
+    const stat = await fs.stat(absPath).catch(() => undefined)
+    if (!stat) continue
+    let note = parsedNotes.get(absPath)
+    if (!note || note.mtimeMs !== stat.mtimeMs) {
+      note = { mtimeMs: stat.mtimeMs, ...parseNote(await Bun.file(absPath).text()) }
+      parsedNotes.set(absPath, note)
+    }
+    parsed.set(relPath, note)
+    for (const alias of note.aliases) addTo(byAlias, alias.toLowerCase(), relPath)
+  }
+
+  /** Resolves a note name, path or alias as written in a wikilink from `source` (or the vault root). */
+  const resolve = (target: string, source = "") => {
+    const name = target.replace(/\\/g, "/").replace(/^\.?\//, "").toLowerCase()
+    const relative = path.posix.join(path.posix.dirname(source), name)
+    return (
+      byPath.get(name) ??
+      byPath.get(relative) ??
+      byPath.get(withoutNoteExtension(name)) ??
+      byPath.get(withoutNoteExtension(relative)) ??
+      (name.includes("/") ? undefined : pickClosest(byName.get(withoutNoteExtension(name)), source)) ??
+      pickClosest(byAlias.get(target.trim().toLowerCase()), source)
+    )
+  }
+
+  // Markdown links are paths: relative to the note, or to the vault root when they start with "/"
+  const resolveHref = (href: string, source: string) => {
+    const joined = href.startsWith("/") ? href.slice(1) : path.posix.join(path.posix.dirname(source), href)
+    const normalized = path.posix.normalize(joined).toLowerCase()
+    if (normalized.startsWith("..")) return undefined
+    return byPath.get(normalized) ?? byPath.get(`${normalized}.md`)
+  }
+
+  const outgoing = new Map<string, ResolvedLink[]>()
+  const backlinks = new Map<string, Array<{ source: string; link: ResolvedLink }>>()
+  for (const [source, note] of parsed) {
+    const links = note.links.map((link) => ({
+      ...link,
+      resolved: link.wiki ? resolve(link.target, source) : resolveHref(link.target, source),
+    }))
+    outgoing.set(source, links)
+    for (const link of links) {
+      if (!link.resolved || link.resolved === source) continue
+      const list = backlinks.get(link.resolved) ?? []
+      list.push({ source, link })
+      backlinks.set(link.resolved, list)
+    }
+  }
+
+  return {
+    notes,
+    outgoing,
+    backlinks,
+    resolve,
+    // Notes no other note links or embeds
+    orphans: () => notes.filter((relPath) => !backlinks.has(relPath)),
+    unresolved: () => {
+      const missing = new Map<string, Array<{ source: string; link: ResolvedLink }>>()
+      for (const [source, links] of outgoing) {
+        for (const link of links) {
+          if (link.resolved) continue
+          const list = missing.get(link.target) ?? []
+          list.push({ source, link })
+          missing.set(link.target, list)
+        }
+      }
+      return missing
+    },
+  }
+}
@@ -10,6 +10,30 @@ export function trimLine(line: string) {
   return line.slice(0, MAX_LINE_LENGTH) + "..."
 }
 
+// Same "00042| " gutter chat_read uses, so line numbers can be quoted back into edits
+export function numberLines(lines: string[], firstLine: number) {
+  return lines.map((line, index) => `${(index + firstLine).toString().padStart(5, "0")}| ${trimLine(line)}`)
+}
+
+const FENCE_PATTERN = /^\s{0,3}(`{3,}|~{3,})/
+
+/**
+ * Returns a function that is fed markdown lines in order and reports whether each one is part of
+ * a fenced code block, fence lines included. A fence closes on the same marker at least as long.
+ */
+export function createFenceTracker() {
+  let open: string | undefined
+  return (line: string) => {
+    const fence = FENCE_PATTERN.exec(line)?.[1]
+    if (open) {
+      if (fence && fence[0] === open[0] && fence.length >= open.length) open = undefined
+      return true
+    }
+    if (fence) open = fence
+    return open !== undefined
+  }
+}
+
 export function replaceOnce(content: string, oldString: string, newString: string, replaceAll?: boolean) {
   if (oldString === newString) {
     throw new Error("oldString and newString must be different")
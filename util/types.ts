@@ -21,3 +21,5 @@ export type Match = {
   lineNum: number
   lineText: string
 }
+
+export type FilesChanged = (paths: string[]) => void